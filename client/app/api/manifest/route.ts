@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import {
+  ManifestAuthorityError,
+  ManifestWriteRequest,
+  writeStreamManifest,
+} from "@/lib/lens/manifest-authority";
+
+// Every request writes to Grove; never serve it from the route cache
+export const dynamic = "force-dynamic";
+
+/**
+ * Creates (no streamUri) or updates (with streamUri) a stream manifest.
+ * The manifest must carry a signature chain from the stream's creator.
+ */
+export async function POST(request: Request) {
+  let body: ManifestWriteRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  try {
+    const uri = await writeStreamManifest(body);
+    return NextResponse.json({ uri });
+  } catch (error) {
+    if (error instanceof ManifestAuthorityError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error("Error writing stream manifest:", error);
+    return NextResponse.json(
+      { error: "Failed to write stream manifest" },
+      { status: 500 }
+    );
+  }
+}
@@ -11,6 +11,7 @@ import { MessageSquare, Loader2, Search, Users, ThumbsUp } from "lucide-react";
 import Link from "next/link";
 import { getLivestreamPosts } from "@/lib/lens/lens";
 import { useWalletClient } from "wagmi";
+import { StreamThumbnail } from "@/components/explore/StreamThumbnail";
 
 // LivestreamPost type based on your getLivestreamPosts function
 interface LivestreamPost {
@@ -119,17 +120,12 @@ export default function ExplorePage() {
   const renderStreamCard = (space: LivestreamPost) => (
     <Link href={`/space/${space.id}`} key={space.id}>
       <Card className="overflow-hidden shadow-soft hover:shadow-soft-lg transition-shadow card-hover">
-        <div className="relative aspect-video bg-muted flex items-center justify-center">
-          {space.ownerAvatar ? (
-            <img
-              src={space.ownerAvatar}
-              alt={space.title}
-              className="w-full h-full object-cover"
-            />
-          ) : (
-            <div className="text-muted-foreground text-sm">No thumbnail</div>
-          )}
-        </div>
+        {/* The latest camera frame; hovering cycles the recent ones */}
+        <StreamThumbnail
+          streamUri={space.streamUri}
+          title={space.title}
+          fallbackUri={space.ownerAvatar}
+        />
         <CardContent className="pt-4">
           <h3 className="font-semibold text-lg line-clamp-1">{space.title}</h3>
           <p className="text-muted-foreground text-sm">
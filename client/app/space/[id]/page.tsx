@@ -1,10 +1,13 @@
 "use client";
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect } from "react";
+import Link from "next/link";
 import { Navbar } from "@/components/navbar";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import {
   Heart,
   MessageSquare,
@@ -12,13 +15,26 @@ import {
   ThumbsUp,
   Loader2,
   DollarSign,
+  ShieldCheck,
+  ShieldAlert,
+  Radio,
+  RefreshCw,
+  Scissors,
+  LayoutGrid,
+  UserSquare,
 } from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
-import { StreamManifest } from "@/lib/lens/stream";
-import { useParams } from "next/navigation";
-import { initializeGroveClient } from "@/lib/lens/grove";
+import { useParams, useSearchParams } from "next/navigation";
+import { useStreamPlayer } from "@/hooks/use-stream-player";
 import {
+  ManifestErrorCode,
+  ManifestValidationError,
+} from "@/lib/lens/manifest";
+import { ManifestVerification } from "@/lib/lens/manifest-signing";
+import {
+  getAccountAvatar,
   getAccountByAddress,
+  getAccountName,
   getPost,
   reactToPost,
   removeReaction,
@@ -26,8 +42,13 @@ import {
 } from "@/lib/lens/lens";
 import { useWalletClient } from "wagmi";
 import LensChat from "@/components/space/Chat";
-import { PostReactionType } from "@lens-protocol/client";
+import { Account, PostReactionType } from "@lens-protocol/client";
 import { TipDialog } from "@/components/space/TipDialog";
+import { DownloadRecordingButton } from "@/components/space/DownloadRecordingButton";
+import { ClipEditor } from "@/components/space/ClipEditor";
+import { AudioSpacePlayer } from "@/components/space/AudioSpacePlayer";
+import { SpaceStage, StageLayout } from "@/components/space/SpaceStage";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 
 interface ChatMessage {
   id: string;
@@ -45,40 +66,146 @@ const DEFAULT_SPACE = {
   isLive: true,
 };
 
+// How each kind of broken manifest is explained to viewers
+const MANIFEST_ERRORS: Record<
+  ManifestErrorCode,
+  { title: string; retryable: boolean }
+> = {
+  invalid_json: {
+    title: "This stream's manifest could not be read",
+    retryable: true,
+  },
+  unsupported_version: {
+    title: "This stream was created with a newer version of Lens Spaces",
+    retryable: false,
+  },
+  invalid_schema: {
+    title: "This stream's manifest is malformed",
+    retryable: false,
+  },
+  chunks_out_of_order: {
+    title: "This stream's chunks are out of order",
+    retryable: false,
+  },
+  chunk_count_mismatch: {
+    title: "This stream's manifest is incomplete",
+    retryable: true,
+  },
+  invalid_status: {
+    title: "This stream's status is inconsistent",
+    retryable: true,
+  },
+};
+
+// Ways a space with co-hosts can be laid out
+const STAGE_LAYOUTS: {
+  value: StageLayout;
+  label: string;
+  icon: typeof LayoutGrid;
+}[] = [
+  { value: "grid", label: "Grid", icon: LayoutGrid },
+  { value: "speaker", label: "Active speaker", icon: UserSquare },
+];
+
+/**
+ * Parses a ?t= deep link: plain seconds ("90") or "1h2m3s" style
+ */
+function parseStartTime(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return Number(value);
+  }
+
+  const match = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (!match || !match[0]) return undefined;
+
+  const [, hours = "0", minutes = "0", seconds = "0"] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+}
+
 export default function SpacePage() {
   const { toast } = useToast();
   const [isReactionLoading, setIsReactionLoading] = useState(false);
-  const [isLoading, setIsLoading] = useState(true);
   const [isPostLoading, setIsPostLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [space, setSpace] = useState(DEFAULT_SPACE);
-  const [manifest, setManifest] = useState<StreamManifest | null>(null);
-  const [viewerCount, setViewerCount] = useState(0);
-  const [creator, setCreator] = useState<any>(null);
+  const [creator, setCreator] = useState<Account | null>(null);
+  const [clipSourceCreator, setClipSourceCreator] = useState<Account | null>(
+    null
+  );
   const [lensPostId, setLensPostId] = useState<string | null>(null);
   const [lensPost, setLensPost] = useState<any>(null);
+
+  // Whose signature to expect: the post's author, or for a clip the author
+  // of the stream post it quotes. The manifest's own creator field is only
+  // checked against them, never trusted by itself.
+  const clipSourceAddress: string | null =
+    lensPost?.quoteOf?.author?.address ?? null;
+  const expectedCreator = clipSourceAddress ? clipSourceCreator : creator;
   const [isTipDialogOpen, setIsTipDialogOpen] = useState(false);
   const [isTippingLoading, setisTippingLoading] = useState(false);
   const { data: walletClient } = useWalletClient();
   const { id } = useParams();
+  const searchParams = useSearchParams();
 
-  const videoRef = useRef<HTMLVideoElement | null>(null);
-  const sourceBufferRef = useRef<SourceBuffer | null>(null);
-  const mediaSourceRef = useRef<MediaSource | null>(null);
-  const pollingRef = useRef<NodeJS.Timer | null>(null);
-  const lastChunkIndexRef = useRef(-1);
   const [streamUri, setStreamUri] = useState("");
-
-  function sleep(seconds: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, seconds * 1000));
-  }
-
-  const waitForMetadata = async () => {
-    const video = videoRef.current!;
-    while (video.readyState < 1) {
-      await new Promise((r) => setTimeout(r, 50));
-    }
-  };
+  const [stageLayout, setStageLayout] = useState<StageLayout>("grid");
+  const [lowLatency, setLowLatency] = useState(false);
+  const {
+    videoRef,
+    status: playerStatus,
+    isLive,
+    manifest,
+    verification,
+    rendition,
+    secondsBehindLive,
+    isBehindLive,
+    player,
+    mediaElement,
+    error: playerError,
+  } = useStreamPlayer(streamUri || null, {
+    // The manifest must be signed by the creator's account or its owner. A
+    // clip is vouched for by the stream it was cut from, whoever posted it.
+    trustedSigners: expectedCreator
+      ? [expectedCreator.address, expectedCreator.owner]
+      : [],
+    // Ended streams can be linked to a moment with ?t=
+    startTime: parseStartTime(searchParams.get("t")),
+    // Opt-in: stay close to live; streams with long chunks simply get a
+    // longer target
+    lowLatency,
+  });
+
+  const isLoading = playerStatus === "idle" || playerStatus === "loading";
+  const isBuffering = playerStatus === "buffering";
+  const isReconnecting = playerStatus === "reconnecting";
+  const manifestError =
+    playerError instanceof ManifestValidationError ? playerError : null;
+  const streamError =
+    error ||
+    (manifestError
+      ? MANIFEST_ERRORS[manifestError.code].title
+      : playerError?.message) ||
+    null;
+  const canRetry =
+    !!error || !manifestError || MANIFEST_ERRORS[manifestError.code].retryable;
+  const isCreatorMismatch =
+    !!manifest &&
+    !!expectedCreator &&
+    manifest.creator.toLowerCase() !== expectedCreator.address.toLowerCase();
+  const streamVerification: ManifestVerification | null = isCreatorMismatch
+    ? {
+        status: "unverified",
+        signer: null,
+        reason: "The stream names a different creator than its Lens post",
+      }
+    : verification;
+  const isAudio = manifest?.kind === "audio";
+  const hasCoHosts = !!manifest?.participants?.length;
+  const creatorName = creator ? getAccountName(creator) : space.creator;
+  const creatorAvatar =
+    (creator && getAccountAvatar(creator)) || space.creatorAvatar;
 
   // First, fetch the post by ID
   useEffect(() => {
@@ -107,29 +234,14 @@ export default function SpacePage() {
             title: post.metadata.title || "Untitled Stream",
             creator: post.author.address,
             creatorAvatar:
-              post.author.metadata?.picture?.__typename === "ImageSet"
-                ? post.author.metadata.picture.optimized?.uri
-                : "/placeholder.svg?height=40&width=40",
+              getAccountAvatar(post.author) ||
+              "/placeholder.svg?height=40&width=40",
             viewers: post.stats?.upvotes || 0,
             isLive: true, // Assuming live by default
           });
 
           // Set creator
           setCreator(post.author);
-
-          // Initialize stream with the URI from post
-          if (videoRef.current) {
-            initializeStream(streamUri);
-          } else {
-            // Wait for video element to be available
-            const waitForVideoElement = async () => {
-              while (!videoRef.current) {
-                await new Promise((r) => setTimeout(r, 50));
-              }
-              initializeStream(streamUri);
-            };
-            waitForVideoElement();
-          }
         } else {
           throw new Error("This post does not contain livestream metadata");
         }
@@ -144,223 +256,24 @@ export default function SpacePage() {
     fetchLensPost();
   }, [id]);
 
-  async function initializeStream(streamUri: string) {
-    try {
-      setIsLoading(true);
-      const storageClient = initializeGroveClient();
-      const manifestUrl = storageClient.resolve(streamUri);
-      const res = await fetch(manifestUrl);
-      const manifest: StreamManifest = await res.json();
-      setManifest(manifest);
-
-      // Update space status based on manifest
-      setSpace((prev) => ({
-        ...prev,
-        isLive: manifest.status === "live",
-      }));
-
-      // Set stats from lens post if available
-      if (lensPost) {
-        setViewerCount(lensPost.stats?.upvotes || 0);
-      }
-
-      const mediaSource = new MediaSource();
-      mediaSourceRef.current = mediaSource;
-
-      const video = videoRef.current!;
-      video.src = URL.createObjectURL(mediaSource);
-
-      video.addEventListener("loadedmetadata", () => {
-        console.log("🎥 loadedmetadata: duration =", video.duration);
-      });
-
-      video.addEventListener("canplay", () => {
-        console.log("🎬 canplay: video can begin playback");
-      });
-
-      video.addEventListener("error", () => {
-        const error = video.error;
-        if (!error) {
-          console.error("❌ video error: Unknown");
-          return;
-        }
-
-        const errorMap = {
-          1: "MEDIA_ERR_ABORTED",
-          2: "MEDIA_ERR_NETWORK",
-          3: "MEDIA_ERR_DECODE",
-          4: "MEDIA_ERR_SRC_NOT_SUPPORTED",
-        };
-
-        console.error("❌ video error:", {
-          code: error.code,
-          name: errorMap[error.code] || "Unknown Error",
-          message: error.message || "No detailed message",
-        });
-      });
-
-      setTimeout(() => {
-        video.play().catch((err) => console.warn("Autoplay blocked:", err));
-      }, 1000);
-
-      mediaSource.addEventListener(
-        "sourceopen",
-        async () => {
-          console.log(
-            "MediaSource opened, readyState:",
-            mediaSource.readyState
-          );
-
-          try {
-            const mime = "video/webm;codecs=vp9,opus";
-
-            if (!MediaSource.isTypeSupported(mime)) {
-              throw new Error("MIME type not supported");
-            }
-
-            const sourceBuffer = mediaSource.addSourceBuffer(mime);
-            sourceBufferRef.current = sourceBuffer;
-
-            await loadInitialChunks(
-              manifest,
-              sourceBuffer,
-              storageClient,
-              mediaSource
-            );
-
-            pollingRef.current = setInterval(
-              () => pollManifestForNewChunks(streamUri),
-              5000 // or shorter interval if needed
-            );
-
-            setIsLoading(false);
-          } catch (err) {
-            console.error("SourceBuffer setup failed:", err);
-            setError("Playback initialization failed");
-            setIsLoading(false);
-          }
-        },
-        { once: true }
-      );
-    } catch (err: any) {
-      console.error("Stream initialization error:", err);
-      setError(err.message);
-      setIsLoading(false);
-    }
-  }
-
-  async function loadInitialChunks(
-    manifest: StreamManifest,
-    sourceBuffer: SourceBuffer,
-    storageClient: ReturnType<typeof initializeGroveClient>,
-    mediaSource: MediaSource
-  ) {
-    for (const chunk of manifest.chunks) {
-      const chunkUrl = storageClient.resolve(chunk.uri);
-      const chunkRes = await fetch(chunkUrl);
-      const buffer = await chunkRes.arrayBuffer();
-
-      await new Promise<void>((resolve) => {
-        sourceBuffer.addEventListener(
-          "updateend",
-          () => {
-            resolve();
-          },
-          { once: true }
-        );
-        try {
-          sourceBuffer.appendBuffer(buffer);
-        } catch (err) {
-          console.error("appendBuffer error:", err);
-          resolve();
-        }
-      });
-
-      lastChunkIndexRef.current = chunk.index;
-    }
-  }
-
-  async function pollManifestForNewChunks(streamUri: string) {
-    try {
-      const storageClient = initializeGroveClient();
-      const updatedManifestUrl = storageClient.resolve(streamUri);
-
-      const response = await fetch(`${updatedManifestUrl}?t=${Date.now()}`, {
-        cache: "no-store",
-      });
-      const updatedManifest: StreamManifest = await response.json();
-
-      const newChunks = updatedManifest.chunks.filter(
-        (c) => c.index > lastChunkIndexRef.current
-      );
-
-      for (const chunk of newChunks) {
-        if (
-          !mediaSourceRef.current ||
-          mediaSourceRef.current.readyState !== "open" ||
-          !sourceBufferRef.current
-        ) {
-          console.warn(
-            "MediaSource not ready or SourceBuffer missing. Skipping chunk."
-          );
-          return;
-        }
-
-        const url = storageClient.resolve(chunk.uri);
-        const res = await fetch(url);
-        const buffer = await res.arrayBuffer();
-
-        await new Promise<void>((resolve) => {
-          sourceBufferRef.current!.addEventListener(
-            "updateend",
-            () => resolve(),
-            { once: true }
-          );
-          try {
-            sourceBufferRef.current!.appendBuffer(buffer);
-          } catch (err) {
-            console.error("appendBuffer failed during polling:", err);
-            resolve();
-          }
-        });
-
-        lastChunkIndexRef.current = chunk.index;
-      }
-
-      if (updatedManifest.status === "ended") {
-        if (
-          mediaSourceRef.current &&
-          mediaSourceRef.current.readyState === "open"
-        ) {
-          try {
-            mediaSourceRef.current.endOfStream();
-          } catch (err) {
-            console.warn("endOfStream error:", err);
-          }
-        }
-        clearInterval(pollingRef.current!);
+  // Clips can be posted by anyone; look up who posted the clipped stream
+  useEffect(() => {
+    if (!clipSourceAddress) return;
 
-        // Update space status
-        setSpace((prev) => ({
-          ...prev,
-          isLive: false,
-        }));
-      }
-    } catch (err) {
-      console.error("Polling error:", err);
-    }
-  }
+    getAccountByAddress(clipSourceAddress)
+      .then(setClipSourceCreator)
+      .catch((error) => console.error("Error fetching stream creator:", error));
+  }, [clipSourceAddress]);
 
+  // Mirror the manifest status onto the space once the player has loaded it
   useEffect(() => {
-    return () => {
-      if (pollingRef.current) clearInterval(pollingRef.current);
-      if (videoRef.current) {
-        videoRef.current.pause();
-        videoRef.current.removeAttribute("src");
-        videoRef.current.load();
-      }
-    };
-  }, []);
+    if (!manifest) return;
+
+    setSpace((prev) => ({
+      ...prev,
+      isLive,
+    }));
+  }, [manifest, isLive]);
 
   const handleReaction = async (type: "likes" | "hearts") => {
     if (!lensPostId || !walletClient || isReactionLoading) return;
@@ -478,7 +391,14 @@ export default function SpacePage() {
   };
 
   const handleShare = () => {
-    navigator.clipboard.writeText(window.location.href).then(() => {
+    const url = new URL(window.location.href);
+
+    // Replays are shared at the moment being watched
+    if (manifest?.status === "ended" && player) {
+      url.searchParams.set("t", String(Math.floor(player.getCurrentTime())));
+    }
+
+    navigator.clipboard.writeText(url.toString()).then(() => {
       toast({
         title: "Link Copied",
         description: "Stream link copied to clipboard",
@@ -507,60 +427,184 @@ export default function SpacePage() {
             <div className="lg:col-span-2 space-y-6">
               <Card className="overflow-hidden shadow-soft">
                 <div className="aspect-video bg-black flex items-center justify-center text-white relative">
-                  <video
-                    ref={videoRef}
-                    className="w-full h-full object-cover"
-                    playsInline
-                    controls
-                    autoPlay
-                  />
-                  {(isLoading || error) && (
+                  <SpaceStage
+                    hostUri={streamUri}
+                    manifest={manifest}
+                    hostPlayer={player}
+                    hostMedia={mediaElement}
+                    layout={stageLayout}
+                    lowLatency={lowLatency}
+                  >
+                    <video
+                      ref={videoRef}
+                      className="w-full h-full object-cover"
+                      playsInline
+                      controls
+                      autoPlay
+                    />
+                    {/* Audio Spaces show the host instead of an empty picture */}
+                    {isAudio && (
+                      <AudioSpacePlayer
+                        media={mediaElement}
+                        avatarUrl={creatorAvatar}
+                        name={creatorName}
+                      />
+                    )}
+                  </SpaceStage>
+                  {(isLoading || streamError) && (
                     <div className="absolute inset-0 bg-black bg-opacity-80 flex items-center justify-center z-10">
-                      {isLoading ? (
-                        <div className="flex flex-col items-center">
-                          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-white mb-2"></div>
-                          <p>Loading stream...</p>
-                        </div>
-                      ) : (
+                      {streamError ? (
                         <div className="text-center p-6">
                           <p className="text-red-500 font-semibold mb-2">
-                            {error}
+                            {streamError}
                           </p>
-                          <Button
-                            variant="outline"
-                            className="mt-4"
-                            onClick={() => window.location.reload()}
-                          >
-                            Try Again
-                          </Button>
+                          {manifestError && !error && (
+                            <p className="text-sm text-white/60">
+                              {manifestError.message}
+                            </p>
+                          )}
+                          {canRetry && (
+                            <Button
+                              variant="outline"
+                              className="mt-4"
+                              onClick={() => window.location.reload()}
+                            >
+                              Try Again
+                            </Button>
+                          )}
                         </div>
+                      ) : (
+                        <div className="flex flex-col items-center">
+                          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-white mb-2"></div>
+                          <p>Loading stream...</p>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  {(isBuffering || isReconnecting) && !streamError && (
+                    <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                      <Loader2 className="h-10 w-10 animate-spin text-white/80" />
+                    </div>
+                  )}
+                  {isReconnecting && !streamError && (
+                    <div className="absolute bottom-16 left-1/2 -translate-x-1/2 flex items-center gap-2 rounded-full bg-black/70 px-4 py-1.5 text-sm pointer-events-none">
+                      <RefreshCw className="h-4 w-4 animate-spin" />
+                      Reconnecting to the stream...
+                    </div>
+                  )}
+                  {isLive && secondsBehindLive !== null && !streamError && (
+                    <div className="absolute top-3 left-3 flex items-center gap-2">
+                      <Badge
+                        variant={isBehindLive ? "secondary" : "destructive"}
+                        className="gap-1 pointer-events-none"
+                        title="Measured from the newest published chunk"
+                      >
+                        <Radio className="h-3 w-3" />
+                        {isBehindLive ? `${secondsBehindLive}s behind live` : "LIVE"}
+                      </Badge>
+                      {isBehindLive && (
+                        <Button
+                          size="sm"
+                          variant="secondary"
+                          className="h-6 rounded-full px-3 text-xs"
+                          onClick={() => player?.goLive()}
+                        >
+                          Go Live
+                        </Button>
                       )}
                     </div>
                   )}
+                  {/* Only streams recorded with adaptive quality have a choice */}
+                  {rendition && !!manifest?.renditions?.length && (
+                    <Badge
+                      variant="secondary"
+                      className="absolute top-3 right-3 bg-black/60 text-white pointer-events-none"
+                    >
+                      {rendition === "source" ? "Source" : rendition}
+                    </Badge>
+                  )}
                 </div>
+                {(isLive || hasCoHosts) && (
+                  <div className="flex flex-wrap items-center justify-end gap-4 p-2">
+                    {isLive && (
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          id="low-latency"
+                          checked={lowLatency}
+                          onCheckedChange={setLowLatency}
+                        />
+                        <Label
+                          htmlFor="low-latency"
+                          className="text-sm text-muted-foreground"
+                          title="Plays slightly faster, or skips ahead, to stay a few seconds behind live"
+                        >
+                          Low latency
+                        </Label>
+                      </div>
+                    )}
+                    {hasCoHosts && (
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm text-muted-foreground">
+                          Layout
+                        </span>
+                        <ToggleGroup
+                          type="single"
+                          variant="outline"
+                          size="sm"
+                          value={stageLayout}
+                          onValueChange={(value) =>
+                            value && setStageLayout(value as StageLayout)
+                          }
+                        >
+                          {STAGE_LAYOUTS.map(({ value, label, icon: Icon }) => (
+                            <ToggleGroupItem
+                              key={value}
+                              value={value}
+                              aria-label={label}
+                              title={label}
+                            >
+                              <Icon className="h-4 w-4" />
+                            </ToggleGroupItem>
+                          ))}
+                        </ToggleGroup>
+                      </div>
+                    )}
+                  </div>
+                )}
               </Card>
               <Card className="shadow-soft">
                 <CardContent className="pt-6">
                   <div className="flex items-start justify-between">
                     <div className="flex items-start gap-4">
                       <Avatar className="h-12 w-12">
-                        <AvatarImage
-                          src={
-                            creator?.metadata?.picture?.__typename ===
-                            "ImageSet"
-                              ? creator.metadata.picture.optimized?.uri
-                              : space.creatorAvatar
-                          }
-                          alt={creator?.username?.value || space.creator}
-                        />
+                        <AvatarImage src={creatorAvatar} alt={creatorName} />
                         <AvatarFallback>
-                          {(creator?.username?.value ||
-                            space.creator)[0]?.toUpperCase()}
+                          {creatorName[0]?.toUpperCase()}
                         </AvatarFallback>
                       </Avatar>
                       <div>
                         <div className="flex items-center gap-2">
                           <h1 className="text-xl font-bold">{space.title}</h1>
+                          {streamVerification &&
+                            (streamVerification.status === "verified" ? (
+                              <Badge
+                                variant="outline"
+                                className="gap-1 border-green-500 text-green-600"
+                                title="Every manifest revision is signed by the creator's wallet"
+                              >
+                                <ShieldCheck className="h-3 w-3" />
+                                Verified creator
+                              </Badge>
+                            ) : (
+                              <Badge
+                                variant="outline"
+                                className="gap-1 text-muted-foreground"
+                                title={streamVerification.reason}
+                              >
+                                <ShieldAlert className="h-3 w-3" />
+                                Unverified
+                              </Badge>
+                            ))}
                         </div>
                         <p className="text-muted-foreground">
                           {creator.metadata?.name || "Unnamed Creator"}
@@ -630,6 +674,31 @@ export default function SpacePage() {
                       Tip Creator
                     </Button>
                   </div>
+                  {manifest?.status === "ended" && !manifest.clip && (
+                    <div className="mt-3 flex gap-3">
+                      <DownloadRecordingButton
+                        streamUri={streamUri || null}
+                        title={manifest.title}
+                        className="flex-1 rounded-full shadow-soft"
+                      />
+                      <ClipEditor
+                        player={player}
+                        streamUri={streamUri || null}
+                        postId={lensPostId}
+                        title={manifest.title}
+                        className="flex-1 rounded-full shadow-soft"
+                      />
+                    </div>
+                  )}
+                  {manifest?.clip && lensPost?.quoteOf?.id && (
+                    <Link
+                      href={`/space/${lensPost.quoteOf.id}`}
+                      className="mt-3 flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground"
+                    >
+                      <Scissors className="h-4 w-4" />
+                      Clipped from the full stream
+                    </Link>
+                  )}
                   {lensPost?.metadata?.content && (
                     <div className="mt-4 text-sm">
                       <p>{lensPost.metadata.content}</p>
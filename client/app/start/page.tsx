@@ -3,20 +3,96 @@
  */
 
 "use client";
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { Navbar } from "@/components/navbar";
 import { Card, CardContent } from "@/components/ui/card";
-import { Share, StopCircle, Video, VideoOff, Mic, MicOff } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Share,
+  StopCircle,
+  Video,
+  VideoOff,
+  Mic,
+  MicOff,
+  RotateCcw,
+  Loader2,
+  Play,
+  Monitor,
+  PictureInPicture2,
+  Columns2,
+  ScreenShareOff,
+  Users,
+} from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
-import { StreamRecorder } from "@/lib/lens/stream";
+import {
+  AUDIO_CHUNK_DURATION,
+  StreamKind,
+  StreamManifest,
+  StreamRecorder,
+  loadStreamManifest,
+} from "@/lib/lens/stream";
+import {
+  StreamParticipant,
+  claimParticipantSeat,
+  findParticipant,
+} from "@/lib/lens/participants";
+import { DEFAULT_RENDITIONS } from "@/lib/lens/renditions";
+import { CompositorLayout, StreamCompositor } from "@/lib/lens/compositor";
+import {
+  DEFAULT_DEVICE_SELECTION,
+  DeviceSelection,
+  getMediaConstraints,
+  getQualityPreset,
+  getVideoBitsPerSecond,
+  loadDevicePreferences,
+  saveDevicePreferences,
+} from "@/lib/lens/media-devices";
+import { useMediaDevices } from "@/hooks/use-media-devices";
+import { ManifestSigner } from "@/lib/lens/manifest-signing";
+import {
+  StreamSession,
+  clearStreamSession,
+  loadStreamSession,
+} from "@/lib/lens/stream-session";
 import { fetchAccount } from "@lens-protocol/client/actions";
 import { getLensClient } from "@/lib/lens/client";
 import { useWalletClient } from "wagmi";
-import { signer } from "@/lib/lens/signer";
 import { StreamPostButton } from "@/components/space/StreamPostButton";
+import { DownloadRecordingButton } from "@/components/space/DownloadRecordingButton";
 import LensChat from "@/components/space/Chat";
+import { CameraBubbleOverlay } from "@/components/start/CameraBubbleOverlay";
+import { CoHostPanel } from "@/components/start/CoHostPanel";
+import {
+  DeviceSettings,
+  GreenRoom,
+  MicLevelMeter,
+} from "@/components/start/GreenRoom";
+
+// Chunk length for new streams (ms); the low-latency preset trades more
+// uploads for viewers that can stay a few seconds behind live
+const DEFAULT_CHUNK_DURATION = 30000;
+const LOW_LATENCY_CHUNK_DURATION = 4000;
+
+// How often a co-host checks that the host is still live and has not
+// removed them (ms)
+const HOST_POLL_INTERVAL = 10000;
+
+// Layouts the creator can switch between while live
+const LAYOUTS: {
+  value: CompositorLayout;
+  label: string;
+  icon: typeof Video;
+}[] = [
+  { value: "camera", label: "Camera", icon: Video },
+  { value: "screen", label: "Screen", icon: Monitor },
+  { value: "pip", label: "Picture in picture", icon: PictureInPicture2 },
+  { value: "side-by-side", label: "Side by side", icon: Columns2 },
+];
 
 export default function StartSpace() {
   const { toast } = useToast();
@@ -31,6 +107,30 @@ export default function StartSpace() {
   const [showChat, setShowChat] = useState(false);
   const [videoEnabled, setVideoEnabled] = useState(true);
   const [audioEnabled, setAudioEnabled] = useState(true);
+  const [savedSession, setSavedSession] = useState<StreamSession | null>(null);
+  const [isEndingSavedSession, setIsEndingSavedSession] = useState(false);
+  const [pendingUploads, setPendingUploads] = useState(0);
+  const [isRetryingUpload, setIsRetryingUpload] = useState(false);
+  const [adaptiveQuality, setAdaptiveQuality] = useState(false);
+  const [lowLatency, setLowLatency] = useState(false);
+  const [audioOnly, setAudioOnly] = useState(false);
+  const [layout, setLayout] = useState<CompositorLayout>("camera");
+  const [isScreenSharing, setIsScreenSharing] = useState(false);
+  const [deviceSelection, setDeviceSelection] = useState<DeviceSelection>(
+    DEFAULT_DEVICE_SELECTION
+  );
+  const { cameras, microphones } = useMediaDevices();
+  const [endedStream, setEndedStream] = useState<{
+    uri: string;
+    title: string;
+  } | null>(null);
+
+  // The space this account was invited to co-host, from ?join=
+  const [joinHost, setJoinHost] = useState<{
+    uri: string;
+    manifest: StreamManifest;
+    participant: StreamParticipant;
+  } | null>(null);
 
   // Video preview reference
   const videoRef = useRef<HTMLVideoElement | null>(null);
@@ -38,7 +138,10 @@ export default function StartSpace() {
   // Stream recorder reference
   const recorderRef = useRef<StreamRecorder | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const lensClientRef = useRef<any>(null);
+
+  // Camera and screen are drawn into the one stream the recorder records
+  const [cameraStream, setCameraStream] = useState<MediaStream | null>(null);
+  const compositorRef = useRef<StreamCompositor | null>(null);
 
   function sleep(ms: number) {
     return new Promise((resolve) => setTimeout(resolve, ms));
@@ -58,10 +161,43 @@ export default function StartSpace() {
       }).unwrapOr(null);
 
       // Set account data
-      setAccount(await account);
+      const fetchedAccount = await account;
+      setAccount(fetchedAccount);
 
-      // Store Lens client for signing
-      lensClientRef.current = signer;
+      // Offer to resume a stream interrupted by a reload or crash
+      if (fetchedAccount) {
+        setSavedSession(loadStreamSession(fetchedAccount.address));
+        setDeviceSelection(loadDevicePreferences(fetchedAccount.address));
+        await loadJoinHost(fetchedAccount.address);
+      }
+    }
+
+    // Read directly so the page needs no Suspense boundary for search params
+    async function loadJoinHost(address: string) {
+      const hostUri = new URLSearchParams(window.location.search).get("join");
+      if (!hostUri) return;
+
+      try {
+        const manifest = await loadStreamManifest(hostUri);
+        const participant = findParticipant(manifest, address);
+        if (!participant || manifest.status !== "live") {
+          throw new Error(
+            manifest.status === "live"
+              ? "You have not been invited to co-host this space"
+              : "This space is no longer live"
+          );
+        }
+
+        setJoinHost({ uri: hostUri, manifest, participant });
+        setTitle(manifest.title);
+      } catch (error) {
+        console.error("Error loading space to join:", error);
+        toast({
+          title: "Cannot Join Space",
+          description: (error as Error).message,
+          variant: "destructive",
+        });
+      }
     }
 
     if (walletClient) getAuthenticatedAccount();
@@ -69,27 +205,99 @@ export default function StartSpace() {
 
   // Toggle video track
   const toggleVideo = () => {
-    if (streamRef.current) {
-      streamRef.current.getVideoTracks().forEach((track) => {
+    if (cameraStream) {
+      cameraStream.getVideoTracks().forEach((track) => {
         track.enabled = !videoEnabled;
       });
       setVideoEnabled(!videoEnabled);
     }
   };
 
-  // Toggle audio track
+  // Toggle audio track; a shared screen's audio stays on
   const toggleAudio = () => {
-    if (streamRef.current) {
-      streamRef.current.getAudioTracks().forEach((track) => {
+    if (cameraStream) {
+      cameraStream.getAudioTracks().forEach((track) => {
         track.enabled = !audioEnabled;
       });
       setAudioEnabled(!audioEnabled);
     }
   };
 
-  // Start streaming process
-  const startStream = async () => {
-    if (!title) return;
+  // Creates a recorder for the current account with the page's callbacks
+  const createRecorder = (
+    chunkDuration: number,
+    kind: StreamKind = "video",
+    hostUri?: string
+  ) => {
+    const recorder = new StreamRecorder(
+      account?.address,
+      // Manifest revisions are signed on behalf of the creator's wallet
+      new ManifestSigner(walletClient ?? null),
+      {
+        chunkDuration,
+        kind,
+        hostUri,
+        videoBitsPerSecond: getVideoBitsPerSecond(deviceSelection),
+        // A resumed stream keeps the renditions listed in its manifest instead
+        renditions:
+          adaptiveQuality && kind === "video" ? DEFAULT_RENDITIONS : undefined,
+      }
+    );
+
+    recorder.setDownloadMode(isDownloadMode);
+
+    recorder.onChunkDownloaded((index, blob) => {
+      // Create a download link
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `chunk-${index}-${Date.now()}.webm`;
+
+      // Trigger download
+      document.body.appendChild(a);
+      a.click();
+
+      // Clean up
+      setTimeout(() => {
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+      }, 100);
+    });
+
+    // Set up chunk upload callback to update progress
+    recorder.onChunkUploaded((index, total) => {
+      toast({
+        title: "Chunk Uploaded",
+        description: `Chunk #${index + 1} uploaded to Grove.`,
+      });
+    });
+
+    // Track chunks that are still waiting to reach Grove
+    recorder.onChunkStatus((update) => {
+      setPendingUploads(recorder.getPendingUploadCount());
+      if (update.status === "failed" || update.status === "retrying") {
+        setIsRetryingUpload(true);
+      } else if (update.status === "uploaded") {
+        setIsRetryingUpload(false);
+      }
+    });
+
+    // Set up error callback
+    recorder.onError((error) => {
+      toast({
+        title: "Streaming Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    });
+
+    return recorder;
+  };
+
+  // Start streaming process, optionally continuing an interrupted session
+  const startStream = async (session?: StreamSession) => {
+    const streamTitle = session?.title || title;
+    if (!streamTitle) return;
     if (!account) {
       toast({
         title: "Not Connected",
@@ -99,15 +307,51 @@ export default function StartSpace() {
       return;
     }
 
+    // A resumed stream stays the kind it started as
+    const kind: StreamKind = session
+      ? (session.kind ?? "video")
+      : audioOnly
+        ? "audio"
+        : "video";
+
     try {
       setIsStreaming(true);
+      setEndedStream(null);
+      setAudioOnly(kind === "audio");
       setstreamStartTime(Date.now());
 
-      // Request user media
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: true,
-        audio: true,
+      // Request user media with the devices picked in the green room
+      const camera = await navigator.mediaDevices.getUserMedia(
+        getMediaConstraints(deviceSelection, {
+          video: kind === "video",
+          audio: true,
+        })
+      );
+      setCameraStream(camera);
+
+      // Record the composited stream so layouts can change while live; audio
+      // Spaces go through it too so the microphone can be swapped
+      const preset = getQualityPreset(deviceSelection.quality);
+      const compositor = new StreamCompositor({
+        width: preset.width,
+        height: preset.height,
+        frameRate: deviceSelection.frameRate,
+        audioOnly: kind === "audio",
       });
+      compositor.setCamera(camera);
+      compositor.onScreenEnded(() => {
+        setIsScreenSharing(false);
+        setLayout(compositor.getLayout());
+        toast({
+          title: "Screen Sharing Stopped",
+          description: "Your stream is showing the camera again",
+        });
+      });
+      compositorRef.current = compositor;
+      setLayout(compositor.getLayout());
+      setIsScreenSharing(false);
+
+      const stream = compositor.getStream();
 
       // Set video preview
       if (videoRef.current) {
@@ -119,76 +363,189 @@ export default function StartSpace() {
       // Store stream reference
       streamRef.current = stream;
 
-      // Create stream recorder
-      recorderRef.current = new StreamRecorder(
-        signer.address,
-        account?.address,
-        lensClientRef.current, // Lens client for signing
-        { chunkDuration: 30000 } // Create a new chunk every 3 seconds
+      // Create stream recorder; a resumed stream keeps its chunk length and
+      // audio Spaces always use short chunks
+      const chunkDuration =
+        kind === "audio"
+          ? AUDIO_CHUNK_DURATION
+          : lowLatency
+            ? LOW_LATENCY_CHUNK_DURATION
+            : DEFAULT_CHUNK_DURATION;
+      recorderRef.current = createRecorder(
+        session?.chunkDuration || chunkDuration,
+        kind,
+        session ? undefined : joinHost?.uri
       );
 
-      recorderRef.current.setDownloadMode(isDownloadMode);
+      let uri: string;
+      if (session) {
+        // Continue appending to the interrupted stream's manifest
+        await recorderRef.current.resumeStream(session.streamUri);
+        uri = session.streamUri;
+        setTitle(session.title);
+      } else {
+        // Initialize the stream
+        uri = await recorderRef.current.initializeStream(
+          streamTitle,
+          account.address
+        );
+        await sleep(3000);
 
-      recorderRef.current.onChunkDownloaded((index, blob) => {
-        // Create a download link
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement("a");
-        a.href = url;
-        a.download = `chunk-${index}-${Date.now()}.webm`;
+        // Tell the host's viewers where this co-host's track is
+        if (joinHost && walletClient) {
+          await claimParticipantSeat(joinHost.participant, joinHost.uri, uri, {
+            signMessage: ({ message }) => walletClient.signMessage({ message }),
+          });
+        }
+      }
 
-        // Trigger download
-        document.body.appendChild(a);
-        a.click();
+      // Store stream URI
+      setStreamUri(uri);
+      setSavedSession(null);
 
-        // Clean up
-        setTimeout(() => {
-          document.body.removeChild(a);
-          URL.revokeObjectURL(url);
-        }, 100);
+      // Start recording
+      await recorderRef.current.startRecording(stream);
+
+      toast({
+        title: session ? "Stream Resumed" : "Stream Started",
+        description: "Your live space is now active",
+      });
+    } catch (error) {
+      console.error("Error starting stream:", error);
+      toast({
+        title: "Failed to Start Stream",
+        description: (error as Error).message,
+        variant: "destructive",
       });
+      compositorRef.current?.stop();
+      compositorRef.current = null;
+      setCameraStream(null);
+      setIsStreaming(false);
+    }
+  };
 
-      // Set up chunk upload callback to update progress
-      recorderRef.current.onChunkUploaded((index, total) => {
-        toast({
-          title: "Chunk Uploaded",
-          description: `Chunk #${index + 1} uploaded to Grove.`,
-        });
+  // Remember the creator's devices; while live, swap the one that changed
+  const handleDeviceChange = useCallback(
+    (next: DeviceSelection) => {
+      setDeviceSelection(next);
+      if (account) {
+        saveDevicePreferences(account.address, next);
+      }
+    },
+    [account]
+  );
+
+  const swapDevices = async (next: DeviceSelection) => {
+    const compositor = compositorRef.current;
+    if (!compositor || !cameraStream) return;
+
+    const video =
+      !audioOnly && next.videoDeviceId !== deviceSelection.videoDeviceId;
+    const audio = next.audioDeviceId !== deviceSelection.audioDeviceId;
+    if (!video && !audio) return;
+
+    try {
+      // Only the changed device is reopened; the recorder keeps recording
+      // the compositor's output, so chunks carry on without a gap
+      const opened = await navigator.mediaDevices.getUserMedia(
+        getMediaConstraints(next, { video, audio })
+      );
+      opened.getVideoTracks().forEach((track) => {
+        track.enabled = videoEnabled;
+      });
+      opened.getAudioTracks().forEach((track) => {
+        track.enabled = audioEnabled;
       });
 
-      // Set up error callback
-      recorderRef.current.onError((error) => {
-        toast({
-          title: "Streaming Error",
-          description: error.message,
-          variant: "destructive",
+      const camera = new MediaStream([
+        ...(video ? opened.getVideoTracks() : cameraStream.getVideoTracks()),
+        ...(audio ? opened.getAudioTracks() : cameraStream.getAudioTracks()),
+      ]);
+      compositor.setCamera(camera);
+      setCameraStream(camera);
+      handleDeviceChange(next);
+    } catch (error) {
+      console.error("Error switching devices:", error);
+      toast({
+        title: "Device Switch Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Switch layout, asking for a screen to share first if the layout shows one
+  const changeLayout = async (next: CompositorLayout) => {
+    const compositor = compositorRef.current;
+    if (!compositor) return;
+
+    try {
+      if (next !== "camera" && !compositor.hasScreen()) {
+        const screen = await navigator.mediaDevices.getDisplayMedia({
+          video: true,
+          audio: true,
         });
+        compositor.setScreen(screen);
+        setIsScreenSharing(true);
+      }
+
+      compositor.setLayout(next);
+      setLayout(next);
+    } catch (error) {
+      // Closing the browser's picker is not an error worth reporting
+      if ((error as Error).name === "NotAllowedError") return;
+
+      console.error("Error switching layout:", error);
+      toast({
+        title: "Screen Sharing Failed",
+        description: (error as Error).message,
+        variant: "destructive",
       });
+    }
+  };
 
-      // Initialize the stream
-      const uri = await recorderRef.current.initializeStream(
-        title,
-        account.address
-      );
+  const stopScreenShare = () => {
+    const compositor = compositorRef.current;
+    if (!compositor) return;
 
-      // Store stream URI
-      setStreamUri(uri);
+    compositor.setScreen(null);
+    setIsScreenSharing(false);
+    setLayout(compositor.getLayout());
+  };
 
-      await sleep(3000);
-      // Start recording
-      await recorderRef.current.startRecording(stream);
+  // Finalize an interrupted stream without going live again
+  const endSavedSession = async () => {
+    if (!savedSession || !account) return;
+
+    setIsEndingSavedSession(true);
+    try {
+      const recorder = createRecorder(
+        savedSession.chunkDuration,
+        savedSession.kind
+      );
+      await recorder.resumeStream(savedSession.streamUri);
+      await recorder.finalizeStream();
+      setEndedStream({
+        uri: savedSession.streamUri,
+        title: savedSession.title,
+      });
 
       toast({
-        title: "Stream Started",
-        description: "Your live space is now active",
+        title: "Stream Ended",
+        description: "Your previous stream is now available for playback",
       });
     } catch (error) {
-      console.error("Error starting stream:", error);
+      console.error("Error ending saved stream:", error);
       toast({
-        title: "Failed to Start Stream",
+        title: "Error Ending Stream",
         description: (error as Error).message,
         variant: "destructive",
       });
-      setIsStreaming(false);
+    } finally {
+      // An ended or missing stream cannot be resumed either way
+      clearStreamSession(account.address);
+      setSavedSession(null);
+      setIsEndingSavedSession(false);
     }
   };
 
@@ -200,16 +557,23 @@ export default function StartSpace() {
         await recorderRef.current.stopRecording();
       }
 
-      // Stop media tracks
+      // Stop media tracks, including the camera and any shared screen
       if (streamRef.current) {
         streamRef.current.getTracks().forEach((track) => track.stop());
       }
+      compositorRef.current?.stop();
+      compositorRef.current = null;
+      setCameraStream(null);
 
       // Clear video preview
       if (videoRef.current) {
         videoRef.current.srcObject = null;
       }
 
+      if (streamUri) {
+        setEndedStream({ uri: streamUri, title });
+      }
+
       toast({
         title: "Stream Ended",
         description:
@@ -222,6 +586,11 @@ export default function StartSpace() {
         description: (error as Error).message,
         variant: "destructive",
       });
+
+      // Chunks that never made it stay queued; offer to resume and retry them
+      if (account) {
+        setSavedSession(loadStreamSession(account.address));
+      }
     } finally {
       // Reset state after a brief delay
       setTimeout(() => {
@@ -230,13 +599,48 @@ export default function StartSpace() {
     }
   };
 
-  // Share stream
+  // A co-host's stream ends with the host's, or when the host removes them
+  useEffect(() => {
+    if (!joinHost || !isStreaming || !streamUri) return;
+
+    let cancelled = false;
+    const timer = window.setInterval(async () => {
+      try {
+        const manifest = await loadStreamManifest(joinHost.uri);
+        if (cancelled) return;
+
+        const isRemoved = !findParticipant(manifest, account.address);
+        if (manifest.status === "live" && !isRemoved) return;
+
+        cancelled = true;
+        clearInterval(timer);
+        await endStream();
+        toast({
+          title: isRemoved ? "Removed From Space" : "Space Ended",
+          description: isRemoved
+            ? "The host removed you as a co-host"
+            : "The host ended the space",
+        });
+      } catch (error) {
+        // The next check tries again
+        console.error("Error checking host stream:", error);
+      }
+    }, HOST_POLL_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [joinHost, isStreaming, streamUri]);
+
+  // Share stream; co-hosts share the host's space
   const shareStream = () => {
-    if (!streamUri) return;
+    const spaceUri = joinHost?.uri ?? streamUri;
+    if (!spaceUri) return;
 
     // Create shareable URL
     const shareUrl = `${window.location.origin}/space/${encodeURIComponent(
-      streamUri
+      spaceUri
     )}`;
 
     // Copy to clipboard
@@ -267,6 +671,80 @@ export default function StartSpace() {
       <Navbar showWalletConnect />
       <div className="container max-w-3xl mx-auto mt-8">
         <h1 className="text-3xl font-bold mb-8 text-center">Start a Space</h1>
+        {!isStreaming && savedSession && (
+          <Card className="shadow-soft mb-6">
+            <CardContent className="pt-6">
+              <h2 className="text-lg font-semibold">Unfinished stream</h2>
+              <p className="text-sm text-muted-foreground mt-1">
+                &quot;{savedSession.title}&quot; was interrupted after{" "}
+                {savedSession.chunkCount} chunk
+                {savedSession.chunkCount === 1 ? "" : "s"}. Resume it to keep
+                streaming to the same space.
+              </p>
+              <div className="mt-4 flex flex-col sm:flex-row gap-3">
+                <Button
+                  className="flex-1 rounded-full shadow-soft"
+                  onClick={() => startStream(savedSession)}
+                  disabled={!account || isEndingSavedSession}
+                >
+                  <RotateCcw className="mr-2 h-4 w-4" /> Resume Stream
+                </Button>
+                <Button
+                  variant="outline"
+                  className="flex-1 rounded-full shadow-soft"
+                  onClick={endSavedSession}
+                  disabled={!account || isEndingSavedSession}
+                >
+                  <StopCircle className="mr-2 h-4 w-4" /> End It
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+        {!isStreaming && endedStream && (
+          <Card className="shadow-soft mb-6">
+            <CardContent className="pt-6">
+              <h2 className="text-lg font-semibold">Stream ended</h2>
+              <p className="text-sm text-muted-foreground mt-1">
+                &quot;{endedStream.title}&quot; can now be watched as a replay
+                or saved as a single video file.
+              </p>
+              <div className="mt-4 flex flex-col sm:flex-row gap-3">
+                <Button
+                  variant="outline"
+                  className="flex-1 rounded-full shadow-soft"
+                  onClick={() =>
+                    window.open(
+                      `/space/${encodeURIComponent(endedStream.uri)}`,
+                      "_blank"
+                    )
+                  }
+                >
+                  <Play className="mr-2 h-4 w-4" /> Watch Replay
+                </Button>
+                <DownloadRecordingButton
+                  streamUri={endedStream.uri}
+                  title={endedStream.title}
+                  className="flex-1 rounded-full shadow-soft"
+                />
+              </div>
+            </CardContent>
+          </Card>
+        )}
+        {!isStreaming && joinHost && (
+          <Card className="shadow-soft mb-6">
+            <CardContent className="pt-6">
+              <h2 className="flex items-center gap-2 text-lg font-semibold">
+                <Users className="h-5 w-5" /> Joining as a co-host
+              </h2>
+              <p className="text-sm text-muted-foreground mt-1">
+                You were invited to co-host &quot;{joinHost.manifest.title}
+                &quot;. Your camera and mic are recorded as your own track and
+                shown alongside the host&apos;s.
+              </p>
+            </CardContent>
+          </Card>
+        )}
         {!isStreaming ? (
           <Card className="shadow-soft">
             <CardContent className="pt-6">
@@ -286,13 +764,73 @@ export default function StartSpace() {
                     required
                   />
                 </div>
+                {/* Green room: check the camera and mic before going live */}
+                {account && (
+                  <GreenRoom
+                    selection={deviceSelection}
+                    onChange={handleDeviceChange}
+                    audioOnly={audioOnly}
+                  />
+                )}
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="audio-only">Audio only</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Host a voice-only space: just your microphone, in short
+                      chunks that are quick to upload
+                    </p>
+                  </div>
+                  <Switch
+                    id="audio-only"
+                    checked={audioOnly}
+                    onCheckedChange={setAudioOnly}
+                  />
+                </div>
+                {!audioOnly && (
+                  <>
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="space-y-1">
+                        <Label htmlFor="adaptive-quality">
+                          Adaptive quality
+                        </Label>
+                        <p className="text-sm text-muted-foreground">
+                          Also record 480p and 240p copies so viewers on slow
+                          connections keep playing
+                        </p>
+                      </div>
+                      <Switch
+                        id="adaptive-quality"
+                        checked={adaptiveQuality}
+                        onCheckedChange={setAdaptiveQuality}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="space-y-1">
+                        <Label htmlFor="low-latency">Low latency</Label>
+                        <p className="text-sm text-muted-foreground">
+                          Upload 4-second chunks instead of 30-second ones so
+                          viewers stay a few seconds behind you
+                        </p>
+                      </div>
+                      <Switch
+                        id="low-latency"
+                        checked={lowLatency}
+                        onCheckedChange={setLowLatency}
+                      />
+                    </div>
+                  </>
+                )}
                 <Button
                   type="submit"
                   size="lg"
                   className="w-full rounded-full shadow-soft"
                   disabled={!title || !account}
                 >
-                  {!account ? "Connect Lens Account First" : "Start Stream"}
+                  {!account
+                    ? "Connect Lens Account First"
+                    : joinHost
+                      ? "Join Space"
+                      : "Start Stream"}
                 </Button>
               </form>
             </CardContent>
@@ -302,40 +840,72 @@ export default function StartSpace() {
             <div className="lg:col-span-2 space-y-6">
               <Card className="shadow-soft overflow-hidden">
                 <div className="aspect-video bg-black flex items-center justify-center text-white relative">
-                  {/* Actual video preview */}
-                  <video
-                    ref={videoRef}
-                    className="w-full h-full object-cover"
-                    playsInline
-                    muted
-                  />
+                  {audioOnly ? (
+                    <div className="flex flex-col items-center gap-4 w-full max-w-xs">
+                      <Avatar className="h-24 w-24">
+                        <AvatarImage
+                          src={account?.metadata?.picture}
+                          alt={account?.username?.localName}
+                        />
+                        <AvatarFallback className="text-2xl text-foreground">
+                          {(account?.username?.localName ||
+                            "?")[0].toUpperCase()}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div className="w-full">
+                        <MicLevelMeter stream={cameraStream} />
+                      </div>
+                    </div>
+                  ) : (
+                    // Actual video preview
+                    <video
+                      ref={videoRef}
+                      className="w-full h-full object-cover"
+                      playsInline
+                      muted
+                    />
+                  )}
+                  {layout === "pip" && compositorRef.current && (
+                    <CameraBubbleOverlay compositor={compositorRef.current} />
+                  )}
                   <div className="absolute top-4 left-4">
                     <div className="flex items-center gap-2 bg-black/50 px-3 py-1 rounded-full">
                       <div className="animate-pulse text-red-500">●</div>
                       <span className="text-sm font-medium">LIVE</span>
                     </div>
                   </div>
+                  {pendingUploads > 0 && (
+                    <div className="absolute top-4 right-4">
+                      <div className="flex items-center gap-2 bg-black/50 px-3 py-1 rounded-full text-sm">
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                        {isRetryingUpload ? "Retrying" : "Uploading"}{" "}
+                        {pendingUploads} chunk{pendingUploads === 1 ? "" : "s"}
+                      </div>
+                    </div>
+                  )}
                 </div>
                 <CardContent className="pt-6">
                   <h2 className="text-xl font-semibold mb-4">{title}</h2>
 
                   {/* Video and Audio Controls */}
                   <div className="flex justify-center gap-4 mb-6">
-                    <Button
-                      variant={videoEnabled ? "default" : "outline"}
-                      className="rounded-full shadow-soft"
-                      onClick={toggleVideo}
-                    >
-                      {videoEnabled ? (
-                        <>
-                          <Video className="mr-2 h-4 w-4" /> Camera On
-                        </>
-                      ) : (
-                        <>
-                          <VideoOff className="mr-2 h-4 w-4" /> Camera Off
-                        </>
-                      )}
-                    </Button>
+                    {!audioOnly && (
+                      <Button
+                        variant={videoEnabled ? "default" : "outline"}
+                        className="rounded-full shadow-soft"
+                        onClick={toggleVideo}
+                      >
+                        {videoEnabled ? (
+                          <>
+                            <Video className="mr-2 h-4 w-4" /> Camera On
+                          </>
+                        ) : (
+                          <>
+                            <VideoOff className="mr-2 h-4 w-4" /> Camera Off
+                          </>
+                        )}
+                      </Button>
+                    )}
                     <Button
                       variant={audioEnabled ? "default" : "outline"}
                       className="rounded-full shadow-soft"
@@ -353,6 +923,62 @@ export default function StartSpace() {
                     </Button>
                   </div>
 
+                  {/* Swapping a device keeps the recording going */}
+                  <div className="space-y-4 mb-6">
+                    {!audioOnly && <MicLevelMeter stream={cameraStream} />}
+                    <DeviceSettings
+                      selection={deviceSelection}
+                      onChange={swapDevices}
+                      cameras={cameras}
+                      microphones={microphones}
+                      showQuality={false}
+                      audioOnly={audioOnly}
+                    />
+                  </div>
+
+                  {/* Hosts can bring co-hosts on stage while live */}
+                  {!joinHost && recorderRef.current && streamUri && (
+                    <CoHostPanel
+                      recorder={recorderRef.current}
+                      streamUri={streamUri}
+                    />
+                  )}
+
+                  {/* Layout: the camera, a shared screen, or both */}
+                  {!audioOnly && (
+                    <div className="flex flex-wrap items-center justify-center gap-2 mb-6">
+                      <ToggleGroup
+                        type="single"
+                        variant="outline"
+                        value={layout}
+                        onValueChange={(value) =>
+                          value && changeLayout(value as CompositorLayout)
+                        }
+                      >
+                        {LAYOUTS.map(({ value, label, icon: Icon }) => (
+                          <ToggleGroupItem
+                            key={value}
+                            value={value}
+                            aria-label={label}
+                            title={label}
+                          >
+                            <Icon className="h-4 w-4" />
+                          </ToggleGroupItem>
+                        ))}
+                      </ToggleGroup>
+                      {isScreenSharing && (
+                        <Button
+                          variant="outline"
+                          className="rounded-full shadow-soft"
+                          onClick={stopScreenShare}
+                        >
+                          <ScreenShareOff className="mr-2 h-4 w-4" /> Stop
+                          Sharing
+                        </Button>
+                      )}
+                    </div>
+                  )}
+
                   <div className="flex flex-col sm:flex-row gap-4">
                     <Button
                       variant="destructive"
@@ -370,15 +996,19 @@ export default function StartSpace() {
                       <Share className="mr-2 h-4 w-4" /> Share
                     </Button>
 
-                    {/* Stream Post Button */}
-                    <StreamPostButton
-                      streamUri={streamUri}
-                      title={title}
-                      disabled={
-                        !streamUri || (Date.now() - streamStartTime) / 1000 < 30
-                      } // Only enable 30 seconds after streaming starts
-                      onPostCreated={handlePostCreated}
-                    />
+                    {/* Stream Post Button; the host posts a co-hosted space */}
+                    {!joinHost && (
+                      <StreamPostButton
+                        streamUri={streamUri}
+                        title={title}
+                        kind={audioOnly ? "audio" : "video"}
+                        disabled={
+                          !streamUri ||
+                          (Date.now() - streamStartTime) / 1000 < 30
+                        } // Only enable 30 seconds after streaming starts
+                        onPostCreated={handlePostCreated}
+                      />
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -0,0 +1,81 @@
+/**
+ * StreamThumbnail Component
+ *
+ * Shows the latest frame of a stream on its explore card and flips through
+ * the stream's recent preview frames while the card is hovered.
+ */
+
+import { useEffect, useState } from "react";
+import { resolveUri } from "@/lib/lens/grove";
+import { StreamManifest, loadStreamManifest } from "@/lib/lens/stream";
+
+interface StreamThumbnailProps {
+  streamUri?: string;
+  title: string;
+  fallbackUri?: string; // Shown while the stream has no thumbnail yet
+}
+
+// How long each preview frame is shown while hovering (ms)
+const PREVIEW_INTERVAL = 800;
+
+export function StreamThumbnail({
+  streamUri,
+  title,
+  fallbackUri,
+}: StreamThumbnailProps) {
+  const [manifest, setManifest] = useState<StreamManifest | null>(null);
+  const [isHovered, setIsHovered] = useState(false);
+  const [previewIndex, setPreviewIndex] = useState(0);
+
+  useEffect(() => {
+    if (!streamUri) return;
+
+    let cancelled = false;
+    loadStreamManifest(streamUri)
+      .then((loaded) => {
+        if (!cancelled) setManifest(loaded);
+      })
+      .catch((error) => {
+        console.error("Error loading stream thumbnail:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [streamUri]);
+
+  const previews = manifest?.previews ?? [];
+
+  // Cycle from the oldest frame so hovering plays the stream back in short
+  useEffect(() => {
+    if (!isHovered || previews.length < 2) return;
+
+    setPreviewIndex(0);
+    const timer = window.setInterval(
+      () => setPreviewIndex((index) => (index + 1) % previews.length),
+      PREVIEW_INTERVAL
+    );
+
+    return () => clearInterval(timer);
+  }, [isHovered, previews.length]);
+
+  const imageUri =
+    isHovered && previews.length > 1
+      ? previews[previewIndex % previews.length].uri
+      : manifest?.thumbnailUri;
+  const src = imageUri ? resolveUri(imageUri) : fallbackUri;
+
+  return (
+    <div
+      className="relative aspect-video bg-muted flex items-center justify-center"
+      onMouseEnter={() => setIsHovered(true)}
+      onMouseLeave={() => setIsHovered(false)}
+    >
+      {src ? (
+        <img src={src} alt={title} className="w-full h-full object-cover" />
+      ) : (
+        <div className="text-muted-foreground text-sm">No thumbnail</div>
+      )}
+    </div>
+  );
+}
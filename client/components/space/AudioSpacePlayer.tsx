@@ -0,0 +1,92 @@
+/**
+ * AudioSpacePlayer Component
+ *
+ * Stands in for the picture on audio-only Spaces: the host's avatar, pulsing
+ * with the sound, above a bar visualizer of whatever the stream is playing.
+ * The stream player keeps playing into its own media element underneath.
+ */
+
+import { useEffect, useRef } from "react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { getMediaAnalyser } from "@/lib/lens/media-analysers";
+
+interface AudioSpacePlayerProps {
+  media: HTMLMediaElement | null; // Element the stream player plays into
+  avatarUrl?: string;
+  name: string;
+}
+
+// Bars drawn across the visualizer
+const BAR_COUNT = 48;
+
+export function AudioSpacePlayer({
+  media,
+  avatarUrl,
+  name,
+}: AudioSpacePlayerProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const avatarRef = useRef<HTMLSpanElement | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const drawing = canvas?.getContext("2d");
+    if (!media || !canvas || !drawing) return;
+
+    const { analyser } = getMediaAnalyser(media);
+
+    // Speech sits in the lower half of the spectrum, so only that is drawn
+    const bins = new Uint8Array(analyser.frequencyBinCount);
+    const drawnBins = bins.length / 2;
+    let frame = 0;
+
+    const draw = () => {
+      analyser.getByteFrequencyData(bins);
+
+      const { width, height } = canvas;
+      const barWidth = width / BAR_COUNT;
+      let total = 0;
+
+      drawing.clearRect(0, 0, width, height);
+      for (let i = 0; i < BAR_COUNT; i++) {
+        const value = bins[Math.floor((i * drawnBins) / BAR_COUNT)] / 255;
+        const barHeight = Math.max(2, value * height);
+        total += value;
+
+        drawing.fillStyle = `rgba(255, 255, 255, ${0.3 + value * 0.7})`;
+        drawing.fillRect(
+          i * barWidth + 1,
+          (height - barHeight) / 2,
+          barWidth - 2,
+          barHeight
+        );
+      }
+
+      // Scaled directly so the player does not re-render every frame
+      if (avatarRef.current) {
+        const level = total / BAR_COUNT;
+        avatarRef.current.style.transform = `scale(${1 + level * 0.5})`;
+      }
+      frame = requestAnimationFrame(draw);
+    };
+    draw();
+
+    return () => {
+      cancelAnimationFrame(frame);
+    };
+  }, [media]);
+
+  return (
+    <div className="absolute inset-x-0 top-0 bottom-14 flex flex-col items-center justify-center gap-6 pointer-events-none">
+      <Avatar
+        ref={avatarRef}
+        className="h-24 w-24 ring-4 ring-white/20 transition-transform duration-75"
+      >
+        <AvatarImage src={avatarUrl} alt={name} />
+        <AvatarFallback className="text-2xl text-foreground">
+          {name[0]?.toUpperCase()}
+        </AvatarFallback>
+      </Avatar>
+      <canvas ref={canvasRef} width={480} height={64} className="w-3/4 h-16" />
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+/**
+ * ClipEditor Component
+ *
+ * Lets a viewer cut a clip from an ended stream: pick a start and end on the
+ * stream's timeline, then publish the clip as a Lens post that quotes the
+ * original stream's post.
+ */
+
+import { useState } from "react";
+import Link from "next/link";
+import { useWalletClient } from "wagmi";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Loader2, Scissors } from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
+import { createStreamPost } from "@/lib/lens/lens";
+import {
+  MAX_CLIP_DURATION_MS,
+  StreamPlayer,
+  createStreamClip,
+} from "@/lib/lens/stream";
+
+interface ClipEditorProps {
+  player: StreamPlayer | null;
+  streamUri: string | null;
+  postId: string | null; // The stream's post, quoted by the clip's post
+  title: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Length of the selection when the editor opens (seconds)
+const DEFAULT_CLIP_SECONDS = 30;
+
+function formatTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.floor(seconds % 60);
+
+  return `${minutes}:${String(rest).padStart(2, "0")}`;
+}
+
+export function ClipEditor({
+  player,
+  streamUri,
+  postId,
+  title,
+  disabled = false,
+  className,
+}: ClipEditorProps) {
+  const { toast } = useToast();
+  const { data: walletClient } = useWalletClient();
+  const [isOpen, setIsOpen] = useState(false);
+  const [duration, setDuration] = useState(0);
+  const [range, setRange] = useState<[number, number]>([0, 0]);
+  const [clipTitle, setClipTitle] = useState("");
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [clipPostId, setClipPostId] = useState<string | null>(null);
+
+  const [start, end] = range;
+  const isTooLong = (end - start) * 1000 > MAX_CLIP_DURATION_MS;
+
+  // The selection starts at the playhead
+  const handleOpen = () => {
+    const total = player?.getDuration();
+    if (!total) return;
+
+    const position = Math.min(player!.getCurrentTime(), total);
+    setDuration(total);
+    setRange([position, Math.min(position + DEFAULT_CLIP_SECONDS, total)]);
+    setClipTitle(`Clip: ${title}`);
+    setClipPostId(null);
+    setIsOpen(true);
+  };
+
+  // Moves one end of the selection to the playhead
+  const handleUseCurrentTime = (edge: "start" | "end") => {
+    if (!player) return;
+
+    const position = Math.min(player.getCurrentTime(), duration);
+    setRange(
+      edge === "start"
+        ? [position, Math.max(position, end)]
+        : [Math.min(start, position), position]
+    );
+  };
+
+  const handlePublish = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!streamUri || !walletClient || isPublishing) return;
+
+    setIsPublishing(true);
+
+    try {
+      const clipUri = await createStreamClip(
+        streamUri,
+        clipTitle,
+        Math.round(start * 1000),
+        Math.round(end * 1000)
+      );
+
+      const result = await createStreamPost(walletClient, {
+        title: clipTitle,
+        streamUri: clipUri,
+        description: `A clip from "${title}" (${formatTime(start)} - ${formatTime(end)})`,
+        quoteOf: postId ?? undefined,
+      });
+
+      if (!result.success || !result.postId) {
+        throw new Error(result.error || "An unknown error occurred");
+      }
+
+      setClipPostId(result.postId);
+      toast({
+        title: "Clip Published",
+        description: "Your clip has been posted to Lens Protocol!",
+      });
+    } catch (error) {
+      console.error("Error publishing clip:", error);
+      toast({
+        title: "Clip Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        onClick={handleOpen}
+        disabled={disabled || !streamUri || !player?.getDuration()}
+        variant="outline"
+        className={className ?? "rounded-full shadow-soft"}
+      >
+        <Scissors className="mr-2 h-4 w-4" />
+        Create Clip
+      </Button>
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Create Clip</DialogTitle>
+            <DialogDescription>
+              Pick the part of the stream to share, up to{" "}
+              {formatTime(MAX_CLIP_DURATION_MS / 1000)} long.
+            </DialogDescription>
+          </DialogHeader>
+          {clipPostId ? (
+            <div className="space-y-4 py-4 text-center">
+              <p>Your clip is live on Lens.</p>
+              <Button asChild className="rounded-full">
+                <Link href={`/space/${clipPostId}`}>Watch Clip</Link>
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handlePublish} className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="clip-title">Title</Label>
+                <Input
+                  id="clip-title"
+                  value={clipTitle}
+                  onChange={(e) => setClipTitle(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-3">
+                <div className="flex justify-between text-sm">
+                  <span>{formatTime(start)}</span>
+                  <span
+                    className={
+                      isTooLong ? "text-red-500" : "text-muted-foreground"
+                    }
+                  >
+                    {formatTime(end - start)} selected
+                  </span>
+                  <span>{formatTime(end)}</span>
+                </div>
+                <Slider
+                  min={0}
+                  max={duration}
+                  step={0.5}
+                  value={range}
+                  minStepsBetweenThumbs={1}
+                  onValueChange={(value) => setRange([value[0], value[1]])}
+                />
+                <div className="flex justify-between">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleUseCurrentTime("start")}
+                  >
+                    Start at playhead
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleUseCurrentTime("end")}
+                  >
+                    End at playhead
+                  </Button>
+                </div>
+              </div>
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsOpen(false)}
+                  disabled={isPublishing}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={
+                    !walletClient ||
+                    !clipTitle.trim() ||
+                    end <= start ||
+                    isTooLong ||
+                    isPublishing
+                  }
+                >
+                  {isPublishing ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Publishing...
+                    </>
+                  ) : (
+                    <>Publish Clip</>
+                  )}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
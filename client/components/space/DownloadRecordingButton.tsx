@@ -0,0 +1,113 @@
+/**
+ * DownloadRecordingButton Component
+ *
+ * Downloads every chunk of an ended stream, joins them into one playable
+ * WebM file and saves it, showing how far the download has got.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Download, Loader2 } from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
+import { downloadStreamRecording } from "@/lib/lens/stream";
+
+interface DownloadRecordingButtonProps {
+  streamUri: string | null;
+  title: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Turns a stream title into something safe to use as a file name
+function toFileName(title: string): string {
+  const name = title
+    .trim()
+    .replace(/[^\w\- ]+/g, "")
+    .replace(/\s+/g, "-");
+
+  return `${name || "recording"}.webm`;
+}
+
+export function DownloadRecordingButton({
+  streamUri,
+  title,
+  disabled = false,
+  className,
+}: DownloadRecordingButtonProps) {
+  const { toast } = useToast();
+  const [progress, setProgress] = useState<{
+    loaded: number;
+    total: number;
+  } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Leaving the page cancels a download in progress
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const handleDownload = async () => {
+    if (!streamUri || abortRef.current) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ loaded: 0, total: 0 });
+
+    try {
+      const file = await downloadStreamRecording(streamUri, {
+        signal: controller.signal,
+        onProgress: (loaded, total) => setProgress({ loaded, total }),
+      });
+
+      const url = URL.createObjectURL(file);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = toFileName(title);
+
+      document.body.appendChild(a);
+      a.click();
+
+      setTimeout(() => {
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+      }, 100);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+
+      console.error("Error downloading recording:", error);
+      toast({
+        title: "Download Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Button
+      onClick={handleDownload}
+      disabled={disabled || !streamUri || progress !== null}
+      variant="outline"
+      className={className ?? "rounded-full shadow-soft"}
+    >
+      {progress ? (
+        <>
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          {progress.total > 0
+            ? `Downloading ${Math.round(
+                (progress.loaded / progress.total) * 100
+              )}%`
+            : "Preparing Download..."}
+        </>
+      ) : (
+        <>
+          <Download className="mr-2 h-4 w-4" />
+          Download Recording
+        </>
+      )}
+    </Button>
+  );
+}
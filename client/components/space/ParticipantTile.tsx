@@ -0,0 +1,188 @@
+/**
+ * ParticipantTile Component
+ *
+ * Plays one co-host's track in a multi-host space. The tile finds the track
+ * through the co-host's seat, waiting while they have not gone live, and
+ * follows the host player's volume so one control covers every participant.
+ */
+
+import { useEffect, useState } from "react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Loader2, ShieldAlert } from "lucide-react";
+import { useStreamPlayer } from "@/hooks/use-stream-player";
+import {
+  getAccountAvatar,
+  getAccountByAddress,
+  getAccountName,
+  shortenAddress,
+} from "@/lib/lens/lens";
+import {
+  ParticipantTrack,
+  StreamParticipant,
+  loadParticipantTrack,
+} from "@/lib/lens/participants";
+import { StreamPlayer } from "@/lib/lens/stream";
+import { Account } from "@lens-protocol/client";
+
+interface ParticipantTileProps {
+  participant: StreamParticipant;
+  hostUri: string;
+  hostStartedAt: number;
+  hostPlayer: StreamPlayer | null; // Replays start co-hosts at the host's moment
+  isReplay: boolean;
+  masterMedia: HTMLMediaElement | null; // Volume and mute follow this element
+  lowLatency: boolean; // Follows the viewer's choice for the host's player
+  onMedia: (seatUri: string, media: HTMLMediaElement | null) => void;
+  className?: string;
+}
+
+// How often an empty seat is checked for the co-host's track (ms)
+const SEAT_POLL_INTERVAL = 5000;
+
+export function ParticipantTile({
+  participant,
+  hostUri,
+  hostStartedAt,
+  hostPlayer,
+  isReplay,
+  masterMedia,
+  lowLatency,
+  onMedia,
+  className,
+}: ParticipantTileProps) {
+  const [account, setAccount] = useState<Account | null>(null);
+  const [track, setTrack] = useState<ParticipantTrack | null>(null);
+  const [startTime, setStartTime] = useState<number | undefined>(undefined);
+  const [seatError, setSeatError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getAccountByAddress(participant.account)
+      .then(setAccount)
+      .catch((error) => {
+        console.error("Error fetching co-host account:", error);
+      });
+  }, [participant.account]);
+
+  // Wait for the co-host to announce their track in the seat
+  useEffect(() => {
+    let cancelled = false;
+    let timer: number | undefined;
+
+    const check = async () => {
+      try {
+        const loaded = await loadParticipantTrack(participant, hostUri);
+        if (cancelled) return;
+
+        if (loaded) {
+          if (isReplay && hostPlayer) {
+            // Line the replay up with the host's, by wall clock
+            const offset = (hostStartedAt - loaded.manifest.startedAt) / 1000;
+            setStartTime(Math.max(0, hostPlayer.getCurrentTime() + offset));
+          }
+          setTrack(loaded);
+          return;
+        }
+
+        timer = window.setTimeout(check, SEAT_POLL_INTERVAL);
+      } catch (error) {
+        console.error("Error loading co-host track:", error);
+        if (!cancelled) setSeatError((error as Error).message);
+      }
+    };
+    check();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+    // Manifest polls re-create the participant; only a new seat needs a
+    // new lookup, and the replay start time is taken once
+  }, [participant.seatUri, hostUri]);
+
+  const {
+    videoRef,
+    mediaElement,
+    manifest,
+    status,
+    verification,
+    error: playerError,
+  } = useStreamPlayer(track?.uri ?? null, {
+    trustedSigners: account
+      ? [participant.account, account.owner]
+      : [participant.account],
+    controls: false,
+    muted: masterMedia?.muted ?? true,
+    lowLatency,
+    startTime,
+  });
+
+  useEffect(() => {
+    onMedia(participant.seatUri, mediaElement);
+    return () => onMedia(participant.seatUri, null);
+  }, [participant.seatUri, mediaElement, onMedia]);
+
+  useEffect(() => {
+    if (!masterMedia || !mediaElement) return;
+
+    const sync = () => {
+      mediaElement.muted = masterMedia.muted;
+      mediaElement.volume = masterMedia.volume;
+    };
+    sync();
+    masterMedia.addEventListener("volumechange", sync);
+
+    return () => masterMedia.removeEventListener("volumechange", sync);
+  }, [masterMedia, mediaElement]);
+
+  const name = account
+    ? getAccountName(account)
+    : shortenAddress(participant.account);
+  const avatarUrl = account ? getAccountAvatar(account) : undefined;
+  const error = seatError || playerError?.message;
+  const showAvatar = !track || manifest?.kind === "audio" || !!error;
+
+  return (
+    <div
+      className={`relative overflow-hidden bg-black text-white ${className ?? ""}`}
+    >
+      <video
+        ref={videoRef}
+        className="w-full h-full object-cover"
+        playsInline
+        autoPlay
+      />
+      {showAvatar && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 p-2 text-center">
+          <Avatar className="h-12 w-12">
+            <AvatarImage src={avatarUrl} alt={name} />
+            <AvatarFallback className="text-foreground">
+              {name[0]?.toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+          {error ? (
+            <p className="flex items-center gap-1 text-xs text-red-400">
+              <ShieldAlert className="h-3 w-3" /> {error}
+            </p>
+          ) : (
+            !track && (
+              <p className="text-xs text-white/70">
+                Waiting for {name} to go live
+              </p>
+            )
+          )}
+        </div>
+      )}
+      {track && status === "loading" && !error && (
+        <Loader2 className="absolute top-2 right-2 h-4 w-4 animate-spin text-white/80" />
+      )}
+      <div className="absolute bottom-2 left-2 flex items-center gap-1 rounded-full bg-black/60 px-2 py-0.5 text-xs">
+        {verification?.status === "unverified" && (
+          <span title={verification.reason}>
+            <ShieldAlert className="h-3 w-3 text-yellow-400" />
+          </span>
+        )}
+        {name}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+/**
+ * SpaceStage Component
+ *
+ * Lays out a space with co-hosts: the host's player plus a tile per co-host,
+ * either as an even grid or with the active speaker large and the others in
+ * a column beside them. Without co-hosts the host's player fills the stage.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { ParticipantTile } from "@/components/space/ParticipantTile";
+import {
+  getMediaLevel,
+  releaseMediaAnalyser,
+} from "@/lib/lens/media-analysers";
+import { StreamManifest, StreamPlayer } from "@/lib/lens/stream";
+
+export type StageLayout = "grid" | "speaker";
+
+interface SpaceStageProps {
+  hostUri: string;
+  manifest: StreamManifest | null; // The host's; it lists the co-hosts
+  hostPlayer: StreamPlayer | null;
+  hostMedia: HTMLMediaElement | null;
+  layout: StageLayout;
+  lowLatency: boolean;
+  children: React.ReactNode; // The host's player
+}
+
+// Stands for the host among the co-hosts' seat URIs
+const HOST_TILE = "host";
+
+// How often the active speaker is re-measured, how long they keep the stage
+// before someone else can take it (ms), and the level that counts as talking
+const SPEAKER_CHECK_INTERVAL = 250;
+const SPEAKER_HOLD_MS = 1500;
+const SPEAKER_THRESHOLD = 0.05;
+
+// Levels are smoothed so a single loud frame does not switch speakers
+const LEVEL_SMOOTHING = 0.7;
+
+// Tiles beside the active speaker; the rest only show in the grid
+const MAX_SIDE_TILES = 3;
+
+export function SpaceStage({
+  hostUri,
+  manifest,
+  hostPlayer,
+  hostMedia,
+  layout,
+  lowLatency,
+  children,
+}: SpaceStageProps) {
+  const [activeSpeaker, setActiveSpeaker] = useState(HOST_TILE);
+  const activeSpeakerRef = useRef(HOST_TILE);
+  const tileMedia = useRef(new Map<string, HTMLMediaElement>());
+  const levels = useRef(new Map<string, number>());
+  const switchedAt = useRef(0);
+
+  // Replays show everyone who took part; live spaces only current co-hosts
+  const isReplay = manifest?.status === "ended";
+  const participants = (manifest?.participants ?? []).filter(
+    (participant) => isReplay || participant.removedAt === null
+  );
+  const tileIds = [HOST_TILE, ...participants.map((p) => p.seatUri)];
+
+  const handleMedia = useCallback(
+    (seatUri: string, media: HTMLMediaElement | null) => {
+      const previous = tileMedia.current.get(seatUri);
+      if (previous && previous !== media) {
+        // Tiles come and go as co-hosts join and leave
+        releaseMediaAnalyser(previous);
+      }
+
+      if (media) {
+        tileMedia.current.set(seatUri, media);
+      } else {
+        tileMedia.current.delete(seatUri);
+        levels.current.delete(seatUri);
+      }
+    },
+    []
+  );
+
+  useEffect(() => {
+    if (layout !== "speaker" || participants.length === 0) return;
+
+    const timer = window.setInterval(() => {
+      const elements = new Map(tileMedia.current);
+      if (hostMedia) elements.set(HOST_TILE, hostMedia);
+
+      let loudest = { id: HOST_TILE, level: 0 };
+      elements.forEach((media, id) => {
+        const level =
+          (levels.current.get(id) ?? 0) * LEVEL_SMOOTHING +
+          getMediaLevel(media) * (1 - LEVEL_SMOOTHING);
+        levels.current.set(id, level);
+
+        if (level > loudest.level) {
+          loudest = { id, level };
+        }
+      });
+
+      const now = Date.now();
+      if (
+        loudest.level > SPEAKER_THRESHOLD &&
+        loudest.id !== activeSpeakerRef.current &&
+        now - switchedAt.current > SPEAKER_HOLD_MS
+      ) {
+        activeSpeakerRef.current = loudest.id;
+        switchedAt.current = now;
+        setActiveSpeaker(loudest.id);
+      }
+    }, SPEAKER_CHECK_INTERVAL);
+
+    return () => clearInterval(timer);
+  }, [layout, participants.length, hostMedia]);
+
+  // A removed co-host cannot stay the active speaker
+  const speaker = tileIds.includes(activeSpeaker) ? activeSpeaker : HOST_TILE;
+
+  const getTileClass = (id: string): string => {
+    if (layout === "grid" || tileIds.length === 1) {
+      return "min-h-0";
+    }
+
+    if (id === speaker) {
+      return "col-span-3 row-span-3 order-first min-h-0";
+    }
+
+    const sideIndex = tileIds.filter((tile) => tile !== speaker).indexOf(id);
+    return sideIndex < MAX_SIDE_TILES ? "min-h-0" : "hidden";
+  };
+
+  const gridClass =
+    layout === "speaker" && tileIds.length > 1
+      ? "grid-cols-4 grid-rows-3"
+      : tileIds.length === 1
+        ? "grid-cols-1"
+        : tileIds.length <= 4
+          ? "grid-cols-2 auto-rows-fr"
+          : "grid-cols-3 auto-rows-fr";
+
+  return (
+    <div className={`grid h-full w-full gap-1 ${gridClass}`}>
+      <div className={`relative ${getTileClass(HOST_TILE)}`}>{children}</div>
+      {participants.map((participant) => (
+        <ParticipantTile
+          key={participant.seatUri}
+          participant={participant}
+          hostUri={hostUri}
+          hostStartedAt={manifest?.startedAt ?? 0}
+          hostPlayer={hostPlayer}
+          isReplay={isReplay}
+          masterMedia={hostMedia}
+          lowLatency={lowLatency}
+          onMedia={handleMedia}
+          className={getTileClass(participant.seatUri)}
+        />
+      ))}
+    </div>
+  );
+}
@@ -11,11 +11,13 @@ import { PenSquare, Check, Loader2 } from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
 import { createStreamPost } from "@/lib/lens/lens";
 import { useWalletClient } from "wagmi";
+import type { StreamKind } from "@/lib/lens/stream";
 
 interface StreamPostButtonProps {
   streamUri: string | null;
   title: string;
   disabled?: boolean;
+  kind?: StreamKind;
   onPostCreated?: (postId: string) => void;
 }
 
@@ -23,6 +25,7 @@ export function StreamPostButton({
   streamUri, 
   title,
   disabled = false,
+  kind = "video",
   onPostCreated
 }: StreamPostButtonProps) {
   const { toast } = useToast();
@@ -37,12 +40,14 @@ export function StreamPostButton({
     setIsCreating(true);
     
     try {
-      const description = `Hey! I'm live streaming "${title}". Come join and chat with me! \nJoin me on  https://lens-spaces.vercel.app/explore!`;
+      const activity = kind === "audio" ? "hosting an audio space" : "live streaming";
+      const description = `Hey! I'm ${activity} "${title}". Come join and chat with me! \nJoin me on  https://lens-spaces.vercel.app/explore!`;
       
       const result = await createStreamPost(walletClient, {
         title,
         streamUri,
-        description
+        description,
+        kind
       });
 
       if (result.success && result.postId) {
@@ -0,0 +1,94 @@
+/**
+ * CameraBubbleOverlay Component
+ *
+ * Sits over the stream preview in the picture-in-picture layout so the
+ * creator can drag the camera bubble around and resize it from its corner.
+ */
+
+import { useRef, useState } from "react";
+import { CameraBubble, StreamCompositor } from "@/lib/lens/compositor";
+
+interface CameraBubbleOverlayProps {
+  compositor: StreamCompositor;
+}
+
+// A drag in progress, measured against the preview it started in
+interface BubbleDrag {
+  mode: "move" | "resize";
+  startX: number;
+  startY: number;
+  start: CameraBubble;
+  frame: DOMRect;
+}
+
+export function CameraBubbleOverlay({ compositor }: CameraBubbleOverlayProps) {
+  const [bubble, setBubble] = useState(() => compositor.getBubble());
+  const frameRef = useRef<HTMLDivElement | null>(null);
+  const dragRef = useRef<BubbleDrag | null>(null);
+
+  const handlePointerDown =
+    (mode: BubbleDrag["mode"]) => (e: React.PointerEvent<HTMLDivElement>) => {
+      if (!frameRef.current) return;
+
+      // The resize handle sits inside the bubble
+      e.stopPropagation();
+      e.currentTarget.setPointerCapture(e.pointerId);
+
+      dragRef.current = {
+        mode,
+        startX: e.clientX,
+        startY: e.clientY,
+        start: compositor.getBubble(),
+        frame: frameRef.current.getBoundingClientRect(),
+      };
+    };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    const dx = (e.clientX - drag.startX) / drag.frame.width;
+    const dy = (e.clientY - drag.startY) / drag.frame.height;
+
+    // The size is relative to the width, so the corner's vertical movement
+    // is converted before taking whichever moved further
+    const grow = Math.max(dx, (dy * drag.frame.height) / drag.frame.width);
+
+    setBubble(
+      compositor.setBubble(
+        drag.mode === "move"
+          ? { x: drag.start.x + dx, y: drag.start.y + dy }
+          : { size: drag.start.size + grow }
+      )
+    );
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div ref={frameRef} className="absolute inset-0 pointer-events-none">
+      <div
+        className="absolute aspect-square rounded-full border-2 border-dashed border-white/70 cursor-move pointer-events-auto touch-none"
+        style={{
+          left: `${bubble.x * 100}%`,
+          top: `${bubble.y * 100}%`,
+          width: `${bubble.size * 100}%`,
+        }}
+        title="Drag to move the camera"
+        onPointerDown={handlePointerDown("move")}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      >
+        <div
+          className="absolute bottom-[8%] right-[8%] h-4 w-4 rounded-full bg-white shadow cursor-nwse-resize touch-none"
+          title="Drag to resize the camera"
+          onPointerDown={handlePointerDown("resize")}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+/**
+ * CoHostPanel Component
+ *
+ * Lets the host invite co-hosts by Lens username or address while live,
+ * copy the link each co-host joins through, and remove them again.
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Link2, Loader2, UserMinus, UserPlus } from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
+import { getAccountByUsername } from "@/lib/lens/lens";
+import { createParticipantSeat } from "@/lib/lens/participants";
+import { StreamParticipant, StreamRecorder } from "@/lib/lens/stream";
+
+interface CoHostPanelProps {
+  recorder: StreamRecorder;
+  streamUri: string;
+}
+
+// An account address rather than a username
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+export function CoHostPanel({ recorder, streamUri }: CoHostPanelProps) {
+  const { toast } = useToast();
+  const [invitee, setInvitee] = useState("");
+  const [isInviting, setIsInviting] = useState(false);
+  const [participants, setParticipants] = useState<StreamParticipant[]>(() =>
+    recorder.getParticipants()
+  );
+
+  const coHosts = participants.filter(
+    (participant) => participant.removedAt === null
+  );
+
+  const resolveAccount = async (value: string): Promise<string> => {
+    if (ADDRESS_PATTERN.test(value)) {
+      return value;
+    }
+
+    const account = await getAccountByUsername(value.replace(/^@/, ""));
+    if (!account) {
+      throw new Error(`No Lens account named ${value}`);
+    }
+    return account.address;
+  };
+
+  const invite = async () => {
+    const value = invitee.trim();
+    if (!value) return;
+
+    setIsInviting(true);
+    try {
+      const address = await resolveAccount(value);
+      const isListed = coHosts.some(
+        (participant) =>
+          participant.account.toLowerCase() === address.toLowerCase()
+      );
+      if (isListed) {
+        throw new Error(`${value} is already a co-host`);
+      }
+
+      recorder.addParticipant(await createParticipantSeat(streamUri, address));
+      setParticipants(recorder.getParticipants());
+      setInvitee("");
+
+      toast({
+        title: "Co-host Invited",
+        description: "Send them the invite link to join your space",
+      });
+    } catch (error) {
+      console.error("Error inviting co-host:", error);
+      toast({
+        title: "Invite Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const remove = (participant: StreamParticipant) => {
+    try {
+      recorder.removeParticipant(participant.seatUri);
+      setParticipants(recorder.getParticipants());
+    } catch (error) {
+      console.error("Error removing co-host:", error);
+      toast({
+        title: "Remove Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const copyInviteLink = () => {
+    const inviteUrl = `${window.location.origin}/start?join=${encodeURIComponent(
+      streamUri
+    )}`;
+
+    navigator.clipboard.writeText(inviteUrl).then(() => {
+      toast({
+        title: "Link Copied",
+        description: "Invited co-hosts can join through this link",
+      });
+    });
+  };
+
+  return (
+    <div className="space-y-3 mb-6">
+      <Label htmlFor="co-host">Co-hosts</Label>
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          invite();
+        }}
+      >
+        <Input
+          id="co-host"
+          placeholder="Lens username or address"
+          value={invitee}
+          onChange={(e) => setInvitee(e.target.value)}
+          disabled={isInviting}
+        />
+        <Button
+          type="submit"
+          variant="outline"
+          disabled={!invitee.trim() || isInviting}
+        >
+          {isInviting ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <UserPlus className="mr-2 h-4 w-4" />
+          )}
+          Invite
+        </Button>
+      </form>
+      {coHosts.length > 0 && (
+        <ul className="space-y-2">
+          {coHosts.map((participant) => (
+            <li
+              key={participant.seatUri}
+              className="flex items-center justify-between gap-2 text-sm"
+            >
+              <span className="font-mono truncate">
+                {participant.account.slice(0, 6)}...
+                {participant.account.slice(-4)}
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={copyInviteLink}
+                  title="Copy invite link"
+                >
+                  <Link2 className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => remove(participant)}
+                  title="Remove co-host"
+                >
+                  <UserMinus className="h-4 w-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
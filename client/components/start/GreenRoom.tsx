@@ -0,0 +1,278 @@
+/**
+ * GreenRoom Component
+ *
+ * Where the creator checks their setup before going live: pick a camera,
+ * microphone and quality preset, see the camera and watch the mic level.
+ * Audio Spaces only need the microphone. DeviceSettings and MicLevelMeter
+ * are also used on the live controls.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Mic } from "lucide-react";
+import { useMediaDevices } from "@/hooks/use-media-devices";
+import {
+  DeviceSelection,
+  FRAME_RATES,
+  QUALITY_PRESETS,
+  QualityPresetId,
+  getMediaConstraints,
+  watchAudioLevel,
+} from "@/lib/lens/media-devices";
+
+interface MicLevelMeterProps {
+  stream: MediaStream | null;
+}
+
+interface DeviceSettingsProps {
+  selection: DeviceSelection;
+  onChange: (selection: DeviceSelection) => void;
+  cameras: MediaDeviceInfo[];
+  microphones: MediaDeviceInfo[];
+  showQuality?: boolean; // Quality is fixed once the stream is live
+  audioOnly?: boolean; // Hides the camera and video quality
+}
+
+interface GreenRoomProps {
+  selection: DeviceSelection;
+  onChange: (selection: DeviceSelection) => void;
+  audioOnly?: boolean;
+}
+
+// Select value for "whatever the browser picks"; Radix needs a non-empty one
+const DEFAULT_DEVICE = "default";
+
+export function MicLevelMeter({ stream }: MicLevelMeterProps) {
+  const [level, setLevel] = useState(0);
+
+  useEffect(() => {
+    if (!stream) return;
+    return watchAudioLevel(stream, setLevel);
+  }, [stream]);
+
+  return (
+    <div className="flex items-center gap-2" title="Microphone level">
+      <Mic className="h-4 w-4 text-muted-foreground" />
+      <div className="h-2 flex-1 overflow-hidden rounded-full bg-secondary">
+        <div
+          className="h-full bg-green-500 transition-[width] duration-75"
+          style={{ width: `${Math.round(level * 100)}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+export function DeviceSettings({
+  selection,
+  onChange,
+  cameras,
+  microphones,
+  showQuality = true,
+  audioOnly = false,
+}: DeviceSettingsProps) {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      {!audioOnly && (
+        <div className="space-y-2">
+          <Label>Camera</Label>
+          <Select
+            value={selection.videoDeviceId ?? DEFAULT_DEVICE}
+            onValueChange={(value) =>
+              onChange({
+                ...selection,
+                videoDeviceId: value === DEFAULT_DEVICE ? null : value,
+              })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_DEVICE}>Default camera</SelectItem>
+              {cameras.map((camera, i) => (
+                <SelectItem key={camera.deviceId} value={camera.deviceId}>
+                  {camera.label || `Camera ${i + 1}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      <div className="space-y-2">
+        <Label>Microphone</Label>
+        <Select
+          value={selection.audioDeviceId ?? DEFAULT_DEVICE}
+          onValueChange={(value) =>
+            onChange({
+              ...selection,
+              audioDeviceId: value === DEFAULT_DEVICE ? null : value,
+            })
+          }
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT_DEVICE}>Default microphone</SelectItem>
+            {microphones.map((microphone, i) => (
+              <SelectItem key={microphone.deviceId} value={microphone.deviceId}>
+                {microphone.label || `Microphone ${i + 1}`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {showQuality && !audioOnly && (
+        <>
+          <div className="space-y-2">
+            <Label>Quality</Label>
+            <Select
+              value={selection.quality}
+              onValueChange={(value) =>
+                onChange({ ...selection, quality: value as QualityPresetId })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {QUALITY_PRESETS.map((preset) => (
+                  <SelectItem key={preset.id} value={preset.id}>
+                    {preset.id} ({preset.videoBitsPerSecond / 1_000_000} Mbps)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Frame rate</Label>
+            <Select
+              value={String(selection.frameRate)}
+              onValueChange={(value) =>
+                onChange({ ...selection, frameRate: Number(value) })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FRAME_RATES.map((frameRate) => (
+                  <SelectItem key={frameRate} value={String(frameRate)}>
+                    {frameRate} fps
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export function GreenRoom({
+  selection,
+  onChange,
+  audioOnly = false,
+}: GreenRoomProps) {
+  const { cameras, microphones, refresh } = useMediaDevices();
+  const [preview, setPreview] = useState<MediaStream | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+
+  // Reopen the devices whenever the selection changes
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+
+    navigator.mediaDevices
+      .getUserMedia(
+        getMediaConstraints(selection, { video: !audioOnly, audio: true })
+      )
+      .then((opened) => {
+        if (cancelled) {
+          opened.getTracks().forEach((track) => track.stop());
+          return;
+        }
+
+        stream = opened;
+        setPreview(opened);
+        setError(null);
+
+        // Labels are only listed once access is granted
+        refresh();
+      })
+      .catch((error) => {
+        if (cancelled) return;
+
+        console.error("Error opening devices:", error);
+
+        // A remembered device may have been unplugged since
+        if (
+          error.name === "OverconstrainedError" &&
+          (selection.videoDeviceId || selection.audioDeviceId)
+        ) {
+          onChange({ ...selection, videoDeviceId: null, audioDeviceId: null });
+          return;
+        }
+
+        setPreview(null);
+        setError((error as Error).message);
+      });
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [selection, audioOnly, onChange, refresh]);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = preview;
+    }
+  }, [preview]);
+
+  return (
+    <div className="space-y-4">
+      {audioOnly ? (
+        error && (
+          <p className="text-sm text-red-500">
+            Could not open your microphone: {error}
+          </p>
+        )
+      ) : (
+        <div className="aspect-video overflow-hidden rounded-lg bg-black flex items-center justify-center">
+          {error ? (
+            <p className="p-4 text-center text-sm text-red-500">
+              Could not open your camera or microphone: {error}
+            </p>
+          ) : (
+            <video
+              ref={videoRef}
+              className="w-full h-full object-cover"
+              playsInline
+              muted
+              autoPlay
+            />
+          )}
+        </div>
+      )}
+      <MicLevelMeter stream={preview} />
+      <DeviceSettings
+        selection={selection}
+        onChange={onChange}
+        cameras={cameras}
+        microphones={microphones}
+        audioOnly={audioOnly}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { MediaDeviceList, listMediaDevices } from "@/lib/lens/media-devices";
+
+/**
+ * Lists the cameras and microphones available to the page, updating when a
+ * device is plugged in or removed.
+ *
+ * Call `refresh` once access has been granted; until then browsers hide the
+ * device labels.
+ */
+export function useMediaDevices() {
+  const [devices, setDevices] = useState<MediaDeviceList>({
+    cameras: [],
+    microphones: [],
+  });
+
+  const refresh = useCallback(async () => {
+    try {
+      setDevices(await listMediaDevices());
+    } catch (error) {
+      console.error("Error listing media devices:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!navigator.mediaDevices) return;
+
+    refresh();
+    navigator.mediaDevices.addEventListener("devicechange", refresh);
+    return () =>
+      navigator.mediaDevices.removeEventListener("devicechange", refresh);
+  }, [refresh]);
+
+  return { ...devices, refresh };
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  StreamPlayer,
+  StreamPlayerOptions,
+  StreamPlayerState,
+} from "@/lib/lens/stream";
+
+const INITIAL_STATE: StreamPlayerState = {
+  status: "idle",
+  isLive: false,
+  manifest: null,
+  verification: null,
+  rendition: null,
+  secondsBehindLive: null,
+  isBehindLive: false,
+  error: null,
+};
+
+/**
+ * Runs a StreamPlayer against a <video> element and exposes its state.
+ *
+ * Attach the returned `videoRef` to the video element; the player starts once
+ * both the element and the stream URI are available and stops on unmount.
+ * `mediaElement` is that element once attached, e.g. for audio visualizers.
+ */
+export function useStreamPlayer(
+  streamUri: string | null,
+  options?: StreamPlayerOptions
+) {
+  const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(
+    null
+  );
+  const [state, setState] = useState<StreamPlayerState>(INITIAL_STATE);
+  const [player, setPlayer] = useState<StreamPlayer | null>(null);
+
+  // Options are read once per player instance
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  useEffect(() => {
+    if (!videoElement || !streamUri) return;
+
+    const player = new StreamPlayer(
+      videoElement,
+      streamUri,
+      optionsRef.current
+    );
+    setPlayer(player);
+
+    player.onStateChange(setState);
+    player.initialize().catch((error) => {
+      // Already reported through the player's error state
+      console.error("Stream player failed to start:", error);
+    });
+
+    return () => {
+      player.stop();
+      setPlayer(null);
+      setState(INITIAL_STATE);
+    };
+  }, [videoElement, streamUri]);
+
+  // Signers can become known after playback starts, or be withdrawn
+  const trustedSigners = options?.trustedSigners?.join(",") ?? "";
+  useEffect(() => {
+    player?.setTrustedSigners(trustedSigners ? trustedSigners.split(",") : []);
+  }, [player, trustedSigners]);
+
+  // Viewers can switch low-latency mode without restarting the player
+  const lowLatency = options?.lowLatency ?? false;
+  useEffect(() => {
+    player?.setLowLatency(lowLatency);
+  }, [player, lowLatency]);
+
+  return {
+    ...state,
+    videoRef: setVideoElement,
+    mediaElement: videoElement,
+    player,
+  };
+}
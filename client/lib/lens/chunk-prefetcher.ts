@@ -0,0 +1,140 @@
+/**
+ * LensSpaces - Chunk Prefetcher
+ *
+ * Downloads upcoming chunks in parallel while the player appends the current
+ * one. Finished downloads wait, keyed by chunk index, until the player takes
+ * them in order; everything in flight can be aborted at once, e.g. on a seek.
+ */
+
+// Types
+export interface ChunkPrefetcherOptions {
+  concurrency: number; // Downloads running at the same time
+}
+
+type Download<T> = (item: T, signal: AbortSignal) => Promise<ArrayBuffer>;
+
+interface PrefetchEntry<T> {
+  item: T;
+  controller: AbortController;
+  data: Promise<ArrayBuffer> | null; // Null until the download starts
+}
+
+/**
+ * Bounded parallel downloads with an ordered reorder buffer
+ */
+export class ChunkPrefetcher<T> {
+  private download: Download<T>;
+  private options: ChunkPrefetcherOptions;
+  private entries: Map<number, PrefetchEntry<T>> = new Map();
+  // Downloads already handed to the player, abortable until they settle
+  private taken: Set<AbortController> = new Set();
+  private active: number = 0;
+
+  constructor(download: Download<T>, options: ChunkPrefetcherOptions) {
+    this.download = download;
+    this.options = options;
+  }
+
+  /**
+   * Queues a download unless one is already queued for the key
+   */
+  public prefetch(key: number, item: T): void {
+    if (this.entries.has(key)) {
+      return;
+    }
+
+    this.entries.set(key, {
+      item,
+      controller: new AbortController(),
+      data: null,
+    });
+    this.startQueued();
+  }
+
+  /**
+   * The item queued for a key, if any
+   */
+  public get(key: number): T | null {
+    return this.entries.get(key)?.item ?? null;
+  }
+
+  /**
+   * Resolves with the data for a key, starting the download now if it was
+   * not prefetched (or was prefetched for another item). Entries for
+   * earlier keys are dropped; they will not be asked for any more.
+   */
+  public take(key: number, item: T): Promise<ArrayBuffer> {
+    for (const [queuedKey, entry] of this.entries) {
+      if (queuedKey < key || (queuedKey === key && entry.item !== item)) {
+        this.discard(queuedKey);
+      }
+    }
+
+    const entry = this.entries.get(key) ?? {
+      item,
+      controller: new AbortController(),
+      data: null,
+    };
+    this.entries.set(key, entry);
+
+    // Needed right now, so it does not wait for a free slot
+    const data = entry.data ?? this.start(entry);
+    this.entries.delete(key);
+
+    this.taken.add(entry.controller);
+    data.finally(() => this.taken.delete(entry.controller)).catch(() => {});
+
+    return data;
+  }
+
+  /**
+   * Aborts every download, including ones the player is waiting on, and
+   * forgets the queue
+   */
+  public cancel(): void {
+    for (const key of [...this.entries.keys()]) {
+      this.discard(key);
+    }
+
+    this.taken.forEach((controller) => controller.abort());
+    this.taken.clear();
+  }
+
+  private discard(key: number): void {
+    this.entries.get(key)?.controller.abort();
+    this.entries.delete(key);
+  }
+
+  private startQueued(): void {
+    const queued = [...this.entries.entries()]
+      .filter(([, entry]) => entry.data === null)
+      .sort(([a], [b]) => a - b);
+
+    for (const [, entry] of queued) {
+      if (this.active >= this.options.concurrency) {
+        return;
+      }
+      this.start(entry);
+    }
+  }
+
+  private start(entry: PrefetchEntry<T>): Promise<ArrayBuffer> {
+    this.active++;
+
+    entry.data = this.download(entry.item, entry.controller.signal).finally(
+      () => {
+        this.active--;
+        this.startQueued();
+      }
+    );
+
+    // Failures surface when the entry is taken; until then they are expected
+    entry.data.catch(() => {});
+
+    return entry.data;
+  }
+}
+
+export default {
+  ChunkPrefetcher,
+};
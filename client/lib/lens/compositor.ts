@@ -0,0 +1,377 @@
+/**
+ * LensSpaces - Stream Compositor
+ *
+ * Draws the camera and a shared screen onto one canvas and mixes their audio,
+ * producing a single MediaStream for the recorder. The layout can change at
+ * any time; the output stream, and so the recording, carries on unchanged.
+ */
+
+import { createTicker } from "@/lib/lens/ticker";
+
+// Types
+export type CompositorLayout = "screen" | "camera" | "pip" | "side-by-side";
+
+// The camera bubble in the PiP layout, as fractions of the output: x and y
+// place its top-left corner, size is its diameter relative to the width
+export interface CameraBubble {
+  x: number;
+  y: number;
+  size: number;
+}
+
+export interface StreamCompositorOptions {
+  width?: number; // Output size in pixels
+  height?: number;
+  frameRate?: number;
+  layout?: CompositorLayout;
+  audioOnly?: boolean; // Only mix audio; nothing is drawn
+}
+
+// A camera or screen stream and the element it is drawn from
+interface CompositorInput {
+  stream: MediaStream;
+  video: HTMLVideoElement;
+  audio: MediaStreamAudioSourceNode[];
+}
+
+const DEFAULT_OPTIONS: Required<StreamCompositorOptions> = {
+  width: 1280,
+  height: 720,
+  frameRate: 30,
+  layout: "camera",
+  audioOnly: false,
+};
+
+// Where the camera bubble starts: bottom-right, a fifth of the width
+const DEFAULT_BUBBLE: CameraBubble = { x: 0.77, y: 0.6, size: 0.2 };
+
+// Bounds for the bubble diameter, relative to the output width
+const MIN_BUBBLE_SIZE = 0.08;
+const MAX_BUBBLE_SIZE = 0.5;
+
+// Layouts that show the shared screen
+const SCREEN_LAYOUTS: CompositorLayout[] = ["screen", "pip", "side-by-side"];
+
+/**
+ * Draws a video scaled to fit inside a box, centred
+ */
+function drawContained(
+  context: CanvasRenderingContext2D,
+  video: HTMLVideoElement,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): void {
+  const scale = Math.min(width / video.videoWidth, height / video.videoHeight);
+  const drawWidth = video.videoWidth * scale;
+  const drawHeight = video.videoHeight * scale;
+
+  context.drawImage(
+    video,
+    x + (width - drawWidth) / 2,
+    y + (height - drawHeight) / 2,
+    drawWidth,
+    drawHeight
+  );
+}
+
+/**
+ * Draws a video scaled to fill a box, cropping whatever sticks out
+ */
+function drawCovered(
+  context: CanvasRenderingContext2D,
+  video: HTMLVideoElement,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): void {
+  const scale = Math.max(width / video.videoWidth, height / video.videoHeight);
+  const cropWidth = width / scale;
+  const cropHeight = height / scale;
+
+  context.drawImage(
+    video,
+    (video.videoWidth - cropWidth) / 2,
+    (video.videoHeight - cropHeight) / 2,
+    cropWidth,
+    cropHeight,
+    x,
+    y,
+    width,
+    height
+  );
+}
+
+function hasFrame(input: CompositorInput | null): input is CompositorInput {
+  return (
+    !!input &&
+    input.video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA &&
+    input.video.videoWidth > 0
+  );
+}
+
+/**
+ * Composites a camera and a shared screen into one recordable stream
+ */
+export class StreamCompositor {
+  private options: Required<StreamCompositorOptions>;
+  private canvas: HTMLCanvasElement;
+  private context: CanvasRenderingContext2D;
+  private audioContext: AudioContext;
+  private audioDestination: MediaStreamAudioDestinationNode;
+  private output: MediaStream;
+  private camera: CompositorInput | null = null;
+  private screen: CompositorInput | null = null;
+  private layout: CompositorLayout;
+  private bubble: CameraBubble = { ...DEFAULT_BUBBLE };
+  private stopTicker: () => void;
+
+  // Events
+  private onScreenEndedCallback: (() => void) | null = null;
+
+  constructor(options: StreamCompositorOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.layout = this.options.layout;
+
+    this.canvas = document.createElement("canvas");
+    this.canvas.width = this.options.width;
+    this.canvas.height = this.options.height;
+
+    const context = this.canvas.getContext("2d");
+    if (!context) {
+      throw new Error("Canvas 2D context is not available");
+    }
+    this.context = context;
+
+    // Every input's audio is mixed into one track
+    this.audioContext = new AudioContext();
+    this.audioDestination = this.audioContext.createMediaStreamDestination();
+
+    this.output = new MediaStream([
+      ...(this.options.audioOnly
+        ? []
+        : this.canvas.captureStream(this.options.frameRate).getVideoTracks()),
+      ...this.audioDestination.stream.getAudioTracks(),
+    ]);
+
+    this.stopTicker = this.options.audioOnly
+      ? () => {}
+      : createTicker(1000 / this.options.frameRate, () => this.draw());
+  }
+
+  /**
+   * Sets callback for when the browser stops the screen share, e.g. from its
+   * "Stop sharing" bar. The compositor has already fallen back to the camera.
+   */
+  public onScreenEnded(callback: () => void): void {
+    this.onScreenEndedCallback = callback;
+  }
+
+  /**
+   * The composited stream; the same one for the compositor's whole life
+   */
+  public getStream(): MediaStream {
+    return this.output;
+  }
+
+  /**
+   * Replaces the camera (and microphone) stream; null removes it. Tracks of
+   * the old stream that the new one reuses keep running, so one device can
+   * be swapped while the other carries on.
+   */
+  public setCamera(stream: MediaStream | null): void {
+    const previous = this.camera;
+    this.camera = stream && this.addInput(stream);
+    this.removeInput(previous, stream);
+  }
+
+  /**
+   * Replaces the shared screen; null stops sharing, and layouts that need
+   * the screen fall back to the camera
+   */
+  public setScreen(stream: MediaStream | null): void {
+    this.removeInput(this.screen);
+    this.screen = stream && this.addInput(stream);
+
+    if (stream) {
+      stream.getVideoTracks()[0]?.addEventListener("ended", () => {
+        if (this.screen?.stream !== stream) {
+          return;
+        }
+
+        this.setScreen(null);
+        if (this.onScreenEndedCallback) {
+          this.onScreenEndedCallback();
+        }
+      });
+    } else if (SCREEN_LAYOUTS.includes(this.layout)) {
+      this.layout = "camera";
+    }
+  }
+
+  public hasScreen(): boolean {
+    return this.screen !== null;
+  }
+
+  public getLayout(): CompositorLayout {
+    return this.layout;
+  }
+
+  /**
+   * Switches layout. Layouts with the screen need setScreen first.
+   */
+  public setLayout(layout: CompositorLayout): void {
+    if (SCREEN_LAYOUTS.includes(layout) && !this.screen) {
+      throw new Error("Share a screen before switching to this layout");
+    }
+
+    this.layout = layout;
+  }
+
+  public getBubble(): CameraBubble {
+    return { ...this.bubble };
+  }
+
+  /**
+   * Moves or resizes the camera bubble, keeping it inside the frame
+   */
+  public setBubble(update: Partial<CameraBubble>): CameraBubble {
+    const size = Math.min(
+      MAX_BUBBLE_SIZE,
+      Math.max(MIN_BUBBLE_SIZE, update.size ?? this.bubble.size)
+    );
+    const maxX = 1 - size;
+    const maxY = 1 - (size * this.canvas.width) / this.canvas.height;
+
+    this.bubble = {
+      size,
+      x: Math.min(maxX, Math.max(0, update.x ?? this.bubble.x)),
+      y: Math.min(maxY, Math.max(0, update.y ?? this.bubble.y)),
+    };
+
+    return this.getBubble();
+  }
+
+  /**
+   * Stops drawing and every input and output track
+   */
+  public stop(): void {
+    this.stopTicker();
+    this.setCamera(null);
+    this.setScreen(null);
+    this.output.getTracks().forEach((track) => track.stop());
+    this.audioContext.close().catch((error) => {
+      console.error("Error closing compositor audio:", error);
+    });
+  }
+
+  private addInput(stream: MediaStream): CompositorInput {
+    const video = document.createElement("video");
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = new MediaStream(stream.getVideoTracks());
+    video.play().catch((error) => {
+      console.error("Error playing compositor input:", error);
+    });
+
+    const audio = stream.getAudioTracks().map((track) => {
+      const source = this.audioContext.createMediaStreamSource(
+        new MediaStream([track])
+      );
+      source.connect(this.audioDestination);
+      return source;
+    });
+
+    // Created during a click, but some browsers still start it suspended
+    if (this.audioContext.state === "suspended") {
+      this.audioContext.resume().catch((error) => {
+        console.error("Error resuming compositor audio:", error);
+      });
+    }
+
+    return { stream, video, audio };
+  }
+
+  private removeInput(
+    input: CompositorInput | null,
+    replacement: MediaStream | null = null
+  ): void {
+    if (!input) {
+      return;
+    }
+
+    const reused = new Set(replacement?.getTracks() ?? []);
+
+    input.audio.forEach((source) => source.disconnect());
+    input.stream
+      .getTracks()
+      .filter((track) => !reused.has(track))
+      .forEach((track) => track.stop());
+    input.video.pause();
+    input.video.srcObject = null;
+  }
+
+  private draw(): void {
+    const { width, height } = this.canvas;
+    const context = this.context;
+
+    context.fillStyle = "#000";
+    context.fillRect(0, 0, width, height);
+
+    const screen = hasFrame(this.screen) ? this.screen : null;
+    const camera = hasFrame(this.camera) ? this.camera : null;
+
+    switch (screen ? this.layout : "camera") {
+      case "screen":
+        drawContained(context, screen!.video, 0, 0, width, height);
+        break;
+
+      case "camera":
+        if (camera) {
+          drawCovered(context, camera.video, 0, 0, width, height);
+        }
+        break;
+
+      case "pip":
+        drawContained(context, screen!.video, 0, 0, width, height);
+        if (camera) {
+          this.drawBubble(camera.video);
+        }
+        break;
+
+      case "side-by-side":
+        drawContained(context, screen!.video, 0, 0, width / 2, height);
+        if (camera) {
+          drawContained(context, camera.video, width / 2, 0, width / 2, height);
+        }
+        break;
+    }
+  }
+
+  private drawBubble(video: HTMLVideoElement): void {
+    const { width, height } = this.canvas;
+    const diameter = this.bubble.size * width;
+    const x = this.bubble.x * width;
+    const y = this.bubble.y * height;
+    const radius = diameter / 2;
+    const context = this.context;
+
+    const outline = new Path2D();
+    outline.arc(x + radius, y + radius, radius, 0, Math.PI * 2);
+
+    context.save();
+    context.clip(outline);
+    drawCovered(context, video, x, y, diameter, diameter);
+    context.restore();
+
+    context.lineWidth = 4;
+    context.strokeStyle = "rgba(255, 255, 255, 0.8)";
+    context.stroke(outline);
+  }
+}
+
+export default {
+  StreamCompositor,
+};
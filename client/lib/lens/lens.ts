@@ -10,6 +10,7 @@ import {
   uri,
   postId,
   evmAddress,
+  Account,
   PostReferenceType,
   Post,
   PostReactionType,
@@ -28,10 +29,15 @@ import {
   executePostAction,
 } from "@lens-protocol/client/actions";
 import { handleOperationWith } from "@lens-protocol/client/viem";
-import { liveStream, textOnly } from "@lens-protocol/metadata";
+import {
+  MetadataAttributeType,
+  liveStream,
+  textOnly,
+} from "@lens-protocol/metadata";
 import { ACLType, createACL, ChainId, uploadAsJson } from "./grove";
 import { getLensClient } from "./client";
 import { WalletClient } from "viem";
+import type { StreamKind } from "./manifest";
 
 // Types
 export interface PostCreateOptions {
@@ -48,6 +54,8 @@ export interface StreamPostOptions {
   description?: string;
   tags?: string[];
   thumbnailUri?: string;
+  quoteOf?: string; // PostId of the stream a clip was cut from
+  kind?: StreamKind; // Audio Spaces are tagged so clients can tell them apart
 }
 
 export interface PostResult {
@@ -70,6 +78,9 @@ export interface LivestreamPost {
   commentCount: number;
 }
 
+// Metadata attribute holding a stream post's kind ("video" or "audio")
+const STREAM_KIND_ATTRIBUTE = "streamKind";
+
 /**
  * Creates a text-only post on Lens Protocol
  *
@@ -164,23 +175,44 @@ export async function createStreamPost(
         error: "No authenticated session",
       };
     }
+    const isAudio = options.kind === "audio";
+
     // Create livestream metadata
     const metadata = liveStream({
       content:
-        options.description || `Check out my livestream: ${options.title}`,
+        options.description ||
+        (isAudio
+          ? `Tune in to my audio space: ${options.title}`
+          : `Check out my livestream: ${options.title}`),
       title: options.title,
       liveUrl: options.streamUri,
       playbackUrl: options.streamUri,
       startsAt: new Date().toISOString().split(".")[0] + "Z",
+      tags: isAudio ? [...(options.tags ?? []), "audio"] : options.tags,
+      attributes: [
+        {
+          type: MetadataAttributeType.STRING,
+          key: STREAM_KIND_ATTRIBUTE,
+          value: options.kind ?? "video",
+        },
+      ],
     });
     // Upload metadata to Grove storage
     const acl = createACL(ACLType.IMMUTABLE, ChainId.MAINNET);
     const { uri: contentUri } = await uploadAsJson(metadata, { acl });
 
+    // Prepare post parameters; clips quote the stream they were cut from
+    const postParams = {
+      contentUri: uri(contentUri),
+      ...(options.quoteOf
+        ? { quoteOf: { post: postId(options.quoteOf) } }
+        : {}),
+    };
+
     // Create the livestream post with TippingPostAction
-    const result = await post(sessionClient, {
-      contentUri: uri(contentUri)
-    }).andThen(handleOperationWith(walletClient));
+    const result = await post(sessionClient, postParams).andThen(
+      handleOperationWith(walletClient)
+    );
 
     console.log(result);
     if (result.isErr()) {
@@ -575,7 +607,9 @@ export async function getLivestreamPosts(): Promise<LivestreamPost[]> {
  * @param address - EVM address of the account
  * @returns Account information
  */
-export async function getAccountByAddress(address: string): Promise<any> {
+export async function getAccountByAddress(
+  address: string
+): Promise<Account | null> {
   try {
     const client = await getLensClient();
 
@@ -601,7 +635,9 @@ export async function getAccountByAddress(address: string): Promise<any> {
  * @param username - Lens username (e.g., "johndoe.lens")
  * @returns Account information
  */
-export async function getAccountByUsername(username: string): Promise<any> {
+export async function getAccountByUsername(
+  username: string
+): Promise<Account | null> {
   try {
     const client = await getLensClient();
 
@@ -621,6 +657,31 @@ export async function getAccountByUsername(username: string): Promise<any> {
   }
 }
 
+/**
+ * Shortens an address for display, e.g. 0x1234...abcd
+ */
+export function shortenAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+/**
+ * Name to show for an account: its username, or its shortened address
+ *
+ * @param account - Account returned by fetchAccount
+ */
+export function getAccountName(account: Account): string {
+  return account.username?.localName || shortenAddress(account.address);
+}
+
+/**
+ * Profile picture URI of an account, if it has set one
+ *
+ * @param account - Account returned by fetchAccount
+ */
+export function getAccountAvatar(account: Account): string | undefined {
+  return account.metadata?.picture ?? undefined;
+}
+
 /**
  * Check if the current user can comment on a post
  *
@@ -800,6 +861,9 @@ export default {
   getLivestreamPosts,
   getAccountByAddress,
   getAccountByUsername,
+  shortenAddress,
+  getAccountName,
+  getAccountAvatar,
   canCommentOnPost,
   formatLivestreamPost,
   reactToPost,
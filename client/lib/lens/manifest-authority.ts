@@ -0,0 +1,270 @@
+/**
+ * LensSpaces - Manifest Authority
+ *
+ * Server-only. Holds the key that owns the Grove ACL of every stream manifest
+ * and writes a revision only when its signature chain leads back to the
+ * stream's creator, so the key never has to ship to the browser.
+ */
+
+import { Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { evmAddress } from "@lens-protocol/client";
+import { fetchAccount } from "@lens-protocol/client/actions";
+import { getPublicClient } from "@/lib/lens/client";
+import {
+  ACLType,
+  ChainId,
+  createACL,
+  resolveUri,
+  updateJson,
+  uploadAsJson,
+} from "@/lib/lens/grove";
+import {
+  ManifestPageContents,
+  ManifestValidationError,
+  StreamManifest,
+  StreamRendition,
+  mergeManifestPages,
+  parseManifestPage,
+  parseStreamManifest,
+} from "@/lib/lens/manifest";
+import { verifyManifestSignature } from "@/lib/lens/manifest-signing";
+
+// Types
+export interface ManifestWriteRequest {
+  streamUri?: string | null; // Omitted when creating a new stream
+  manifest: unknown;
+}
+
+// The source chunks of a manifest or one of its renditions
+type ChunkList = Pick<StreamRendition, "chunks" | "initSegments">;
+
+/**
+ * Raised when a manifest write is rejected; status is the HTTP status to send
+ */
+export class ManifestAuthorityError extends Error {
+  public readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "ManifestAuthorityError";
+    this.status = status;
+  }
+}
+
+function getAuthorityAccount() {
+  const privateKey = process.env.GROVE_SIGNER_PRIVATE_KEY;
+
+  if (!privateKey) {
+    throw new ManifestAuthorityError(500, "Manifest signing is not configured");
+  }
+
+  return privateKeyToAccount(privateKey as Hex);
+}
+
+/**
+ * Wallets allowed to publish for a creator: the Lens account itself and,
+ * when the creator is a Lens account, its owner
+ */
+async function getTrustedSigners(creator: string): Promise<string[]> {
+  const result = await fetchAccount(getPublicClient(), {
+    address: evmAddress(creator),
+  });
+
+  if (result.isErr()) {
+    console.error("Error fetching stream creator:", result.error);
+    throw new ManifestAuthorityError(502, "Could not look up the stream creator");
+  }
+
+  return [creator, result.value?.owner].filter(Boolean) as string[];
+}
+
+/**
+ * Loads the revision currently stored on Grove for a stream
+ */
+async function loadCurrentManifest(streamUri: string): Promise<StreamManifest> {
+  const response = await fetch(resolveUri(streamUri), { cache: "no-store" });
+
+  if (!response.ok) {
+    throw new ManifestAuthorityError(404, "Stream manifest not found");
+  }
+
+  return parseStreamManifest(await response.json());
+}
+
+/**
+ * Loads the pages a revision archives. Pages archived before must be kept
+ * as they are.
+ */
+async function loadAddedPages(
+  current: StreamManifest,
+  next: StreamManifest
+): Promise<ManifestPageContents[]> {
+  const currentPages = current.pages ?? [];
+  const nextPages = next.pages ?? [];
+
+  const changed = currentPages.find(
+    (page, i) =>
+      nextPages[i]?.uri !== page.uri || nextPages[i]?.sha256 !== page.sha256
+  );
+  if (changed) {
+    throw new ManifestAuthorityError(
+      409,
+      `Revision changes the archived page for chunks ${changed.firstIndex}-${changed.lastIndex}`
+    );
+  }
+
+  return Promise.all(
+    nextPages.slice(currentPages.length).map(async (page) => {
+      const response = await fetch(resolveUri(page.uri), { cache: "no-store" });
+
+      if (!response.ok) {
+        throw new ManifestAuthorityError(
+          400,
+          `Manifest page for chunks ${page.firstIndex}-${page.lastIndex} not found`
+        );
+      }
+
+      try {
+        return await parseManifestPage(await response.arrayBuffer(), page);
+      } catch (error) {
+        if (error instanceof ManifestValidationError) {
+          throw new ManifestAuthorityError(400, error.message);
+        }
+        throw error;
+      }
+    })
+  );
+}
+
+/**
+ * Checks that a revision continues the stream it replaces: same stream (the
+ * session key authorization covers these fields), still live, and every
+ * published chunk left untouched, in the manifest or in a page it archives
+ */
+async function assertSameStream(
+  current: StreamManifest,
+  next: StreamManifest
+): Promise<void> {
+  if (
+    current.creator.toLowerCase() !== next.creator.toLowerCase() ||
+    current.startedAt !== next.startedAt ||
+    current.title !== next.title
+  ) {
+    throw new ManifestAuthorityError(403, "Revision belongs to a different stream");
+  }
+
+  if (current.status !== "live") {
+    throw new ManifestAuthorityError(409, "Stream has already ended");
+  }
+
+  // Chunks the revision moves into new pages must arrive there unchanged
+  const expanded = mergeManifestPages(
+    next,
+    await loadAddedPages(current, next)
+  );
+
+  assertChunksKept(current, expanded, "");
+
+  for (const rendition of current.renditions ?? []) {
+    const nextRendition = expanded.renditions?.find(
+      (candidate) => candidate.id === rendition.id
+    );
+    assertChunksKept(
+      rendition,
+      nextRendition ?? { chunks: [] },
+      `${rendition.id} `
+    );
+  }
+}
+
+function assertChunksKept(
+  current: ChunkList,
+  next: ChunkList,
+  label: string
+): void {
+  const nextChunks = new Map(next.chunks.map((chunk) => [chunk.index, chunk.uri]));
+  const rewritten = current.chunks.find(
+    (chunk) => nextChunks.get(chunk.index) !== chunk.uri
+  );
+
+  if (rewritten) {
+    throw new ManifestAuthorityError(
+      409,
+      `Revision changes published ${label}chunk ${rewritten.index}`
+    );
+  }
+
+  const nextInitSegments = new Map(
+    (next.initSegments ?? []).map((entry) => [entry.firstIndex, entry.uri])
+  );
+  const replaced = (current.initSegments ?? []).find(
+    (entry) => nextInitSegments.get(entry.firstIndex) !== entry.uri
+  );
+
+  if (replaced) {
+    throw new ManifestAuthorityError(
+      409,
+      `Revision changes the ${label}init segment for chunk ${replaced.firstIndex}`
+    );
+  }
+}
+
+/**
+ * Creates or updates a stream manifest on Grove on behalf of its creator.
+ * Returns the manifest's Grove URI.
+ */
+export async function writeStreamManifest(
+  request: ManifestWriteRequest
+): Promise<string> {
+  let manifest: StreamManifest;
+  try {
+    manifest = parseStreamManifest(request.manifest);
+  } catch (error) {
+    if (error instanceof ManifestValidationError) {
+      throw new ManifestAuthorityError(400, error.message);
+    }
+    throw error;
+  }
+
+  const verification = await verifyManifestSignature(
+    manifest,
+    await getTrustedSigners(manifest.creator)
+  );
+
+  if (verification.status !== "verified") {
+    throw new ManifestAuthorityError(
+      403,
+      verification.reason || "Manifest is not signed by the stream creator"
+    );
+  }
+
+  const authority = getAuthorityAccount();
+  const acl = createACL(
+    ACLType.WALLET_ADDRESS,
+    ChainId.MAINNET,
+    authority.address
+  );
+
+  if (!request.streamUri) {
+    if (manifest.status !== "live" || manifest.chunkCount !== 0) {
+      throw new ManifestAuthorityError(400, "New streams must start empty and live");
+    }
+
+    const response = await uploadAsJson(manifest, { acl });
+    return response.uri;
+  }
+
+  await assertSameStream(
+    await loadCurrentManifest(request.streamUri),
+    manifest
+  );
+  await updateJson(request.streamUri, manifest, authority, { acl });
+
+  return request.streamUri;
+}
+
+export default {
+  ManifestAuthorityError,
+  writeStreamManifest,
+};
@@ -0,0 +1,228 @@
+/**
+ * LensSpaces - Manifest Signing
+ *
+ * Lets viewers check that a manifest revision was published by the stream's
+ * creator. When a stream starts, the creator's wallet signs (EIP-191) an
+ * authorization for a fresh per-stream session key; that key then signs every
+ * manifest revision, so the creator only sees one wallet prompt per stream.
+ */
+
+import {
+  Account,
+  Address,
+  Hex,
+  SignableMessage,
+  isAddressEqual,
+  recoverMessageAddress,
+} from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import type { ManifestSignature, StreamManifest } from "@/lib/lens/manifest";
+
+// Types
+export interface WalletMessageSigner {
+  account?: Account | null;
+  signMessage(args: {
+    account: Account | Address;
+    message: SignableMessage;
+  }): Promise<Hex>;
+}
+
+// Everything needed to keep signing a stream after a reload
+export interface ManifestSigningKey {
+  privateKey: Hex;
+  signer: string;
+  authorization: string;
+}
+
+export interface ManifestVerification {
+  status: "verified" | "unverified";
+  signer: string | null;
+  reason?: string;
+}
+
+/**
+ * Serializes a manifest deterministically (sorted keys, no signature) so the
+ * signer and verifier hash exactly the same bytes
+ */
+export function canonicalizeManifest(manifest: StreamManifest): string {
+  const { signature, ...contents } = manifest;
+  return stableStringify(contents);
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+    return `{${entries
+      .map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`)
+      .join(",")}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Message the creator's wallet signs to authorize a stream's session key
+ */
+export function getSessionAuthorizationMessage(
+  manifest: Pick<StreamManifest, "creator" | "startedAt" | "title">,
+  sessionKey: string
+): string {
+  return [
+    "Lens Spaces: authorize stream signing key",
+    `Creator: ${manifest.creator}`,
+    `Stream: ${manifest.title}`,
+    `Started at: ${manifest.startedAt}`,
+    `Session key: ${sessionKey}`,
+  ].join("\n");
+}
+
+/**
+ * Signs manifest revisions on behalf of the creator's wallet
+ */
+export class ManifestSigner {
+  private wallet: WalletMessageSigner | null;
+  private signingKey: ManifestSigningKey | null;
+
+  constructor(
+    wallet: WalletMessageSigner | null,
+    signingKey: ManifestSigningKey | null = null
+  ) {
+    this.wallet = wallet;
+    this.signingKey = signingKey;
+  }
+
+  /**
+   * Asks the creator's wallet to authorize a new session key for a stream
+   */
+  public async authorize(manifest: StreamManifest): Promise<ManifestSigningKey> {
+    if (!this.wallet?.account) {
+      throw new Error("Connect a wallet to sign the stream manifest");
+    }
+
+    try {
+      const privateKey = generatePrivateKey();
+      const sessionKey = privateKeyToAccount(privateKey).address;
+
+      const authorization = await this.wallet.signMessage({
+        account: this.wallet.account,
+        message: getSessionAuthorizationMessage(manifest, sessionKey),
+      });
+
+      this.signingKey = {
+        privateKey,
+        signer: this.wallet.account.address,
+        authorization,
+      };
+      return this.signingKey;
+    } catch (error) {
+      console.error("Error authorizing manifest signing key:", error);
+      throw new Error("Failed to authorize manifest signing");
+    }
+  }
+
+  public getSigningKey(): ManifestSigningKey | null {
+    return this.signingKey;
+  }
+
+  /**
+   * Returns the manifest with a signature over its canonical contents
+   */
+  public async sign(manifest: StreamManifest): Promise<StreamManifest> {
+    if (!this.signingKey) {
+      throw new Error("Manifest signer has not been authorized");
+    }
+
+    const sessionAccount = privateKeyToAccount(this.signingKey.privateKey);
+    const unsigned: StreamManifest = { ...manifest, signature: null };
+
+    const signature: ManifestSignature = {
+      scheme: "eip191-session-key",
+      signer: this.signingKey.signer,
+      sessionKey: sessionAccount.address,
+      authorization: this.signingKey.authorization,
+      signature: await sessionAccount.signMessage({
+        message: canonicalizeManifest(unsigned),
+      }),
+    };
+
+    return { ...unsigned, signature };
+  }
+}
+
+/**
+ * Checks a manifest's signature chain. It is only "verified" when the session
+ * key signed these exact contents, the wallet authorized that key for this
+ * stream, and the wallet is one of the trusted signers (the creator's Lens
+ * account or its owner).
+ */
+export async function verifyManifestSignature(
+  manifest: StreamManifest,
+  trustedSigners: string[]
+): Promise<ManifestVerification> {
+  const signature = manifest.signature;
+
+  if (!signature) {
+    return { status: "unverified", signer: null, reason: "Manifest is not signed" };
+  }
+
+  try {
+    const authorizedBy = await recoverMessageAddress({
+      message: getSessionAuthorizationMessage(manifest, signature.sessionKey),
+      signature: signature.authorization as Hex,
+    });
+
+    if (!isAddressEqual(authorizedBy, signature.signer as Hex)) {
+      return {
+        status: "unverified",
+        signer: null,
+        reason: "Signing key was not authorized by the listed signer",
+      };
+    }
+
+    const signedBy = await recoverMessageAddress({
+      message: canonicalizeManifest(manifest),
+      signature: signature.signature as Hex,
+    });
+
+    if (!isAddressEqual(signedBy, signature.sessionKey as Hex)) {
+      return {
+        status: "unverified",
+        signer: null,
+        reason: "Manifest contents do not match their signature",
+      };
+    }
+
+    const isTrusted = trustedSigners.some((address) =>
+      isAddressEqual(address as Hex, authorizedBy)
+    );
+
+    return isTrusted
+      ? { status: "verified", signer: authorizedBy }
+      : {
+          status: "unverified",
+          signer: authorizedBy,
+          reason: "Manifest was signed by someone other than the creator",
+        };
+  } catch (error) {
+    console.error("Error verifying manifest signature:", error);
+    return {
+      status: "unverified",
+      signer: null,
+      reason: "Manifest signature is invalid",
+    };
+  }
+}
+
+export default {
+  ManifestSigner,
+  canonicalizeManifest,
+  getSessionAuthorizationMessage,
+  verifyManifestSignature,
+};
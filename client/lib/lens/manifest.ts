@@ -0,0 +1,664 @@
+/**
+ * LensSpaces - Stream Manifest
+ *
+ * Versioned manifest types for streams stored on Grove, plus the parse layer
+ * that validates manifests and upgrades older versions to the current one.
+ */
+
+import { z } from "zod";
+
+// Types
+export const CURRENT_MANIFEST_VERSION = "2.0";
+
+// What a stream carries; manifests without a kind are video
+export type StreamKind = "video" | "audio";
+
+export interface StreamChunk {
+  uri: string;
+  timestamp: number; // When the chunk finished recording
+  index: number;
+  durationMs: number | null; // Null for chunks migrated from v1.0
+  byteSize: number | null;
+  sha256: string | null; // Hex digest of the chunk bytes
+  mimeType: string | null;
+}
+
+// The WebM header of one recording session (a resume starts a new one),
+// stored on its own so playback can begin at any chunk
+export interface StreamInitSegment {
+  uri: string;
+  firstIndex: number; // First chunk recorded with this header
+  byteSize: number;
+  sha256: string;
+}
+
+export interface ManifestSignature {
+  scheme: "eip191-session-key";
+  signer: string; // Creator wallet that authorized the session key
+  sessionKey: string; // Per-stream key that signs each revision
+  authorization: string; // Wallet's EIP-191 signature authorizing the session key
+  signature: string; // Session key's EIP-191 signature over the canonical manifest
+}
+
+// A lower-bitrate copy of the stream recorded alongside the source. Its chunk
+// indices line up with the source chunks recorded at the same time.
+export interface StreamRendition {
+  id: string; // e.g. "480p"
+  width: number | null;
+  height: number | null;
+  videoBitsPerSecond: number | null;
+  codec: string | null;
+  chunks: StreamChunk[];
+  initSegments?: StreamInitSegment[];
+}
+
+// An archived run of a manifest's oldest chunks. Pages are immutable files;
+// the manifest keeps only newer chunks and links its pages in index order.
+export interface ManifestPage {
+  uri: string;
+  firstIndex: number; // Pages cover consecutive index ranges from 0
+  lastIndex: number;
+  chunkCount: number; // Source chunks in the page
+  durationMs: number | null; // Null if a chunk's duration is unknown
+  byteSize: number;
+  sha256: string; // Hex digest of the page file, so the manifest signature covers it
+}
+
+// What an archived page file holds
+export interface ManifestPageContents {
+  version: string;
+  firstIndex: number;
+  lastIndex: number;
+  chunks: StreamChunk[];
+  renditions?: { id: string; chunks: StreamChunk[] }[];
+}
+
+// Marks a manifest as a clip cut from an ended stream. It lists only the
+// chunks the clip needs; playback is trimmed to startMs-endMs, measured from
+// the start of its first chunk.
+export interface StreamClip {
+  sourceUri: string; // Manifest of the stream the clip was cut from
+  startMs: number;
+  endMs: number;
+}
+
+// A still frame captured from the camera while recording
+export interface StreamPreview {
+  uri: string; // JPEG on Grove
+  index: number; // Source chunk being recorded when the frame was taken
+  capturedAt: number;
+}
+
+// A co-host invited into a space. Their chunks go into a stream of their own,
+// signed by their own wallet; the host only lists the seat they announce it in.
+export interface StreamParticipant {
+  account: string; // Co-host's Lens account, the creator of their track
+  seatUri: string; // See ParticipantSeat
+  invitedAt: number;
+  removedAt: number | null; // Removed co-hosts stay listed for replays
+}
+
+// What a seat file on Grove holds. Only the co-host's Lens account can edit
+// it, so the track it names was put there by the co-host.
+export interface ParticipantSeat {
+  hostUri: string; // Manifest of the space the seat belongs to
+  trackUri: string | null; // The co-host's stream manifest, once they go live
+}
+
+export interface StreamManifest {
+  version: string;
+  title: string;
+  creator: string;
+  startedAt: number;
+  endedAt: number | null;
+  chunkCount: number; // Including chunks archived in pages
+  chunks: StreamChunk[]; // Chunks newer than the last page
+  status: "live" | "ended";
+  codec: string | null; // Full MIME type with codecs, e.g. video/webm;codecs=vp9,opus
+  kind?: StreamKind;
+  signature?: ManifestSignature | null; // See manifest-signing.ts
+  renditions?: StreamRendition[]; // Extra renditions; chunks above is the source
+  initSegments?: StreamInitSegment[]; // Headers for the source chunks
+  pages?: ManifestPage[]; // Archived older chunks, oldest first
+  clip?: StreamClip; // Set on clips, which are never signed by the creator
+  thumbnailUri?: string; // The latest preview frame
+  previews?: StreamPreview[]; // The most recent frames, oldest first
+  participants?: StreamParticipant[]; // Co-hosts, in the order they were invited
+  hostUri?: string; // Set on a co-host's track: the space it was recorded for
+}
+
+// v1.0 manifests, as written before per-chunk metadata existed
+export interface StreamChunkV1 {
+  uri: string;
+  timestamp: number;
+  index: number;
+}
+
+export interface StreamManifestV1 {
+  version: "1.0";
+  title: string;
+  creator: string;
+  startedAt: number;
+  endedAt: number | null;
+  chunkCount: number;
+  chunks: StreamChunkV1[];
+  status: "live" | "ended";
+}
+
+export type ManifestErrorCode =
+  | "invalid_json"
+  | "unsupported_version"
+  | "invalid_schema"
+  | "chunks_out_of_order"
+  | "chunk_count_mismatch"
+  | "invalid_status";
+
+/**
+ * Raised when a manifest loaded from Grove cannot be trusted for playback
+ */
+export class ManifestValidationError extends Error {
+  public readonly code: ManifestErrorCode;
+
+  constructor(code: ManifestErrorCode, message: string) {
+    super(message);
+    this.name = "ManifestValidationError";
+    this.code = code;
+  }
+}
+
+// Schemas
+const sha256Schema = z.string().regex(/^[0-9a-f]{64}$/);
+
+const chunkV1Schema = z
+  .object({
+    uri: z.string().min(1),
+    timestamp: z.number().int().nonnegative(),
+    index: z.number().int().nonnegative(),
+  })
+  .strict();
+
+const chunkV2Schema = chunkV1Schema
+  .extend({
+    durationMs: z.number().nonnegative().nullable(),
+    byteSize: z.number().int().nonnegative().nullable(),
+    sha256: sha256Schema.nullable(),
+    mimeType: z.string().min(1).nullable(),
+  })
+  .strict();
+
+const initSegmentSchema = z
+  .object({
+    uri: z.string().min(1),
+    firstIndex: z.number().int().nonnegative(),
+    byteSize: z.number().int().positive(),
+    sha256: sha256Schema,
+  })
+  .strict();
+
+const renditionSchema = z
+  .object({
+    id: z.string().min(1),
+    width: z.number().int().positive().nullable(),
+    height: z.number().int().positive().nullable(),
+    videoBitsPerSecond: z.number().int().positive().nullable(),
+    codec: z.string().min(1).nullable(),
+    chunks: z.array(chunkV2Schema),
+    initSegments: z.array(initSegmentSchema).optional(),
+  })
+  .strict();
+
+const pageSchema = z
+  .object({
+    uri: z.string().min(1),
+    firstIndex: z.number().int().nonnegative(),
+    lastIndex: z.number().int().nonnegative(),
+    chunkCount: z.number().int().positive(),
+    durationMs: z.number().nonnegative().nullable(),
+    byteSize: z.number().int().positive(),
+    sha256: sha256Schema,
+  })
+  .strict();
+
+const pageContentsSchema = z
+  .object({
+    version: z.literal(CURRENT_MANIFEST_VERSION),
+    firstIndex: z.number().int().nonnegative(),
+    lastIndex: z.number().int().nonnegative(),
+    chunks: z.array(chunkV2Schema),
+    renditions: z
+      .array(
+        z
+          .object({ id: z.string().min(1), chunks: z.array(chunkV2Schema) })
+          .strict()
+      )
+      .optional(),
+  })
+  .strict();
+
+const clipSchema = z
+  .object({
+    sourceUri: z.string().min(1),
+    startMs: z.number().nonnegative(),
+    endMs: z.number().positive(),
+  })
+  .strict();
+
+const previewSchema = z
+  .object({
+    uri: z.string().min(1),
+    index: z.number().int().nonnegative(),
+    capturedAt: z.number(),
+  })
+  .strict();
+
+const hexSchema = z.string().regex(/^0x[0-9a-fA-F]+$/);
+
+const participantSchema = z
+  .object({
+    account: hexSchema,
+    seatUri: z.string().min(1),
+    invitedAt: z.number().int().nonnegative(),
+    removedAt: z.number().int().nonnegative().nullable(),
+  })
+  .strict();
+
+const seatSchema = z
+  .object({
+    hostUri: z.string().min(1),
+    trackUri: z.string().min(1).nullable(),
+  })
+  .strict();
+
+const signatureSchema = z
+  .object({
+    scheme: z.literal("eip191-session-key"),
+    signer: hexSchema,
+    sessionKey: hexSchema,
+    authorization: hexSchema,
+    signature: hexSchema,
+  })
+  .strict();
+
+const manifestBaseSchema = z.object({
+  title: z.string(),
+  creator: z.string().min(1),
+  startedAt: z.number().int().nonnegative(),
+  endedAt: z.number().int().nonnegative().nullable(),
+  chunkCount: z.number().int().nonnegative(),
+  status: z.enum(["live", "ended"]),
+});
+
+const manifestV1Schema = manifestBaseSchema
+  .extend({
+    version: z.literal("1.0"),
+    chunks: z.array(chunkV1Schema),
+  })
+  .strict();
+
+const manifestV2Schema = manifestBaseSchema
+  .extend({
+    version: z.literal(CURRENT_MANIFEST_VERSION),
+    chunks: z.array(chunkV2Schema),
+    codec: z.string().min(1).nullable(),
+    kind: z.enum(["video", "audio"]).optional(),
+    signature: signatureSchema.nullable().optional(),
+    renditions: z.array(renditionSchema).optional(),
+    initSegments: z.array(initSegmentSchema).optional(),
+    pages: z.array(pageSchema).optional(),
+    clip: clipSchema.optional(),
+    thumbnailUri: z.string().min(1).optional(),
+    previews: z.array(previewSchema).optional(),
+    participants: z.array(participantSchema).optional(),
+    hostUri: z.string().min(1).optional(),
+  })
+  .strict();
+
+/**
+ * Validates data against a schema, reporting the first issue found
+ */
+function validateSchema<T>(schema: z.ZodType<T>, data: unknown): T {
+  const result = schema.safeParse(data);
+
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.length > 0 ? issue.path.join(".") : "manifest";
+    throw new ManifestValidationError(
+      "invalid_schema",
+      `Invalid stream manifest at ${path}: ${issue.message}`
+    );
+  }
+
+  return result.data;
+}
+
+/**
+ * Checks invariants the schema alone cannot express
+ */
+function validateConsistency(manifest: StreamManifest): void {
+  validatePages(manifest);
+  validateChunkOrder(manifest.chunks, "the stream manifest");
+  validateInitSegmentOrder(manifest.initSegments, "the stream manifest");
+
+  const renditionIds = new Set<string>();
+  for (const rendition of manifest.renditions ?? []) {
+    if (renditionIds.has(rendition.id)) {
+      throw new ManifestValidationError(
+        "invalid_schema",
+        `Stream manifest lists rendition "${rendition.id}" more than once`
+      );
+    }
+    renditionIds.add(rendition.id);
+    validateChunkOrder(rendition.chunks, `rendition "${rendition.id}"`);
+    validateInitSegmentOrder(
+      rendition.initSegments,
+      `rendition "${rendition.id}"`
+    );
+  }
+
+  const seats = new Set<string>();
+  for (const participant of manifest.participants ?? []) {
+    if (seats.has(participant.seatUri)) {
+      throw new ManifestValidationError(
+        "invalid_schema",
+        `Stream manifest lists seat "${participant.seatUri}" more than once`
+      );
+    }
+    seats.add(participant.seatUri);
+  }
+
+  const listed =
+    manifest.chunks.length +
+    (manifest.pages ?? []).reduce((total, page) => total + page.chunkCount, 0);
+
+  if (manifest.chunkCount !== listed) {
+    throw new ManifestValidationError(
+      "chunk_count_mismatch",
+      `Stream manifest lists ${listed} chunks but chunkCount is ${manifest.chunkCount}`
+    );
+  }
+
+  if ((manifest.status === "ended") !== (manifest.endedAt !== null)) {
+    throw new ManifestValidationError(
+      "invalid_status",
+      `Stream manifest status "${manifest.status}" does not match its endedAt`
+    );
+  }
+
+  if (manifest.clip) {
+    validateClip(manifest, manifest.clip);
+  }
+}
+
+/**
+ * Clips are cut from finished recordings and list all of their chunks
+ */
+function validateClip(manifest: StreamManifest, clip: StreamClip): void {
+  if (manifest.status !== "ended") {
+    throw new ManifestValidationError(
+      "invalid_status",
+      "Clip manifests must have ended"
+    );
+  }
+
+  if (manifest.pages?.length) {
+    throw new ManifestValidationError(
+      "invalid_schema",
+      "Clip manifests cannot have archived pages"
+    );
+  }
+
+  if (clip.startMs >= clip.endMs) {
+    throw new ManifestValidationError(
+      "invalid_schema",
+      `Clip ends at ${clip.endMs}ms, before it starts at ${clip.startMs}ms`
+    );
+  }
+}
+
+/**
+ * Pages must cover consecutive index ranges from 0, and every chunk left in
+ * the manifest must come after them
+ */
+function validatePages(manifest: StreamManifest): void {
+  let nextIndex = 0;
+
+  for (const page of manifest.pages ?? []) {
+    if (
+      page.firstIndex !== nextIndex ||
+      page.lastIndex < page.firstIndex ||
+      page.chunkCount > page.lastIndex - page.firstIndex + 1
+    ) {
+      throw new ManifestValidationError(
+        "chunks_out_of_order",
+        `Manifest page for chunks ${page.firstIndex}-${page.lastIndex} does not follow the one before it`
+      );
+    }
+    nextIndex = page.lastIndex + 1;
+  }
+
+  const lists = [manifest, ...(manifest.renditions ?? [])];
+  if (
+    lists.some((list) => list.chunks.some((chunk) => chunk.index < nextIndex))
+  ) {
+    throw new ManifestValidationError(
+      "chunks_out_of_order",
+      `Stream manifest lists chunks that belong in an archived page`
+    );
+  }
+}
+
+function validateChunkOrder(chunks: StreamChunk[], location: string): void {
+  for (let i = 1; i < chunks.length; i++) {
+    if (chunks[i].index <= chunks[i - 1].index) {
+      throw new ManifestValidationError(
+        "chunks_out_of_order",
+        `Chunk ${chunks[i].index} is out of order in ${location}`
+      );
+    }
+  }
+}
+
+function validateInitSegmentOrder(
+  initSegments: StreamInitSegment[] | undefined,
+  location: string
+): void {
+  for (let i = 1; i < (initSegments?.length ?? 0); i++) {
+    if (initSegments![i].firstIndex <= initSegments![i - 1].firstIndex) {
+      throw new ManifestValidationError(
+        "chunks_out_of_order",
+        `Init segment for chunk ${initSegments![i].firstIndex} is out of order in ${location}`
+      );
+    }
+  }
+}
+
+/**
+ * Finds the header for a chunk: the last init segment starting at or before it
+ */
+export function findInitSegment(
+  initSegments: StreamInitSegment[] | undefined,
+  index: number
+): StreamInitSegment | null {
+  let found: StreamInitSegment | null = null;
+
+  for (const initSegment of initSegments ?? []) {
+    if (initSegment.firstIndex > index) break;
+    found = initSegment;
+  }
+
+  return found;
+}
+
+/**
+ * Upgrades a v1.0 manifest; metadata v1.0 never recorded is left null
+ */
+export function migrateManifestV1(manifest: StreamManifestV1): StreamManifest {
+  return {
+    ...manifest,
+    version: CURRENT_MANIFEST_VERSION,
+    chunks: manifest.chunks.map((chunk) => ({
+      ...chunk,
+      durationMs: null,
+      byteSize: null,
+      sha256: null,
+      mimeType: null,
+    })),
+    codec: null,
+  };
+}
+
+/**
+ * Validates manifest JSON of any supported version and returns it in the
+ * current version. Throws ManifestValidationError if it cannot be trusted.
+ */
+export function parseStreamManifest(data: unknown): StreamManifest {
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new ManifestValidationError(
+      "invalid_schema",
+      "Stream manifest is not an object"
+    );
+  }
+
+  const version = (data as { version?: unknown }).version;
+  let manifest: StreamManifest;
+
+  switch (version) {
+    case "1.0":
+      manifest = migrateManifestV1(validateSchema(manifestV1Schema, data));
+      break;
+
+    case CURRENT_MANIFEST_VERSION:
+      manifest = validateSchema(manifestV2Schema, data);
+      break;
+
+    default:
+      throw new ManifestValidationError(
+        "unsupported_version",
+        `Unsupported stream manifest version: ${String(version)}`
+      );
+  }
+
+  validateConsistency(manifest);
+  return manifest;
+}
+
+/**
+ * Verifies and parses an archived page file against its entry in the
+ * manifest. Throws ManifestValidationError if it cannot be trusted.
+ */
+export async function parseManifestPage(
+  data: ArrayBuffer,
+  page: ManifestPage
+): Promise<ManifestPageContents> {
+  const location = `manifest page for chunks ${page.firstIndex}-${page.lastIndex}`;
+
+  if ((await computeSha256(data)) !== page.sha256) {
+    throw new ManifestValidationError(
+      "invalid_schema",
+      `The ${location} failed its integrity check`
+    );
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(new TextDecoder().decode(data));
+  } catch {
+    throw new ManifestValidationError(
+      "invalid_json",
+      `The ${location} is not valid JSON`
+    );
+  }
+
+  const contents = validateSchema(pageContentsSchema, json);
+  const lists = [contents, ...(contents.renditions ?? [])];
+
+  for (const list of lists) {
+    validateChunkOrder(list.chunks, `the ${location}`);
+
+    if (
+      list.chunks.some(
+        (chunk) => chunk.index < page.firstIndex || chunk.index > page.lastIndex
+      )
+    ) {
+      throw new ManifestValidationError(
+        "chunks_out_of_order",
+        `The ${location} holds chunks outside its range`
+      );
+    }
+  }
+
+  if (
+    contents.firstIndex !== page.firstIndex ||
+    contents.lastIndex !== page.lastIndex ||
+    contents.chunks.length !== page.chunkCount
+  ) {
+    throw new ManifestValidationError(
+      "chunk_count_mismatch",
+      `The ${location} does not match its manifest entry`
+    );
+  }
+
+  return contents;
+}
+
+/**
+ * Puts the chunks of archived pages back in front of a manifest's own, for
+ * code that works on whole chunk lists. Pages not passed stay left out.
+ */
+export function mergeManifestPages(
+  manifest: StreamManifest,
+  pages: ManifestPageContents[]
+): StreamManifest {
+  if (pages.length === 0) {
+    return manifest;
+  }
+
+  const ordered = [...pages].sort((a, b) => a.firstIndex - b.firstIndex);
+
+  return {
+    ...manifest,
+    chunks: [...ordered.flatMap((page) => page.chunks), ...manifest.chunks],
+    renditions: manifest.renditions?.map((rendition) => ({
+      ...rendition,
+      chunks: [
+        ...ordered.flatMap(
+          (page) =>
+            page.renditions?.find((entry) => entry.id === rendition.id)
+              ?.chunks ?? []
+        ),
+        ...rendition.chunks,
+      ],
+    })),
+  };
+}
+
+/**
+ * Validates a co-host's seat file loaded from Grove
+ */
+export function parseParticipantSeat(data: unknown): ParticipantSeat {
+  return validateSchema(seatSchema, data);
+}
+
+/**
+ * Computes the hex SHA-256 digest used to verify chunk integrity
+ */
+export async function computeSha256(data: ArrayBuffer | Blob): Promise<string> {
+  const buffer = data instanceof Blob ? await data.arrayBuffer() : data;
+  const digest = await crypto.subtle.digest("SHA-256", buffer);
+
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export default {
+  CURRENT_MANIFEST_VERSION,
+  ManifestValidationError,
+  migrateManifestV1,
+  parseStreamManifest,
+  findInitSegment,
+  parseManifestPage,
+  mergeManifestPages,
+  parseParticipantSeat,
+  computeSha256,
+};
@@ -0,0 +1,110 @@
+/**
+ * LensSpaces - Media Analysers
+ *
+ * Web Audio analysers for the media elements streams play into, used by the
+ * audio Space visualizer and to find the active speaker among co-hosts.
+ */
+
+// Types
+export interface MediaAnalyser {
+  context: AudioContext;
+  analyser: AnalyserNode;
+}
+
+interface AnalysedMedia extends MediaAnalyser {
+  source: MediaElementAudioSourceNode;
+  resume: () => void;
+}
+
+// Browsers limit how many audio contexts a page may hold, so every element
+// shares one
+let sharedContext: AudioContext | null = null;
+
+// An element can only be routed into Web Audio once, so its source node is
+// kept for the element's lifetime, even after its analyser is released
+const mediaSources = new WeakMap<
+  HTMLMediaElement,
+  MediaElementAudioSourceNode
+>();
+const mediaAnalysers = new WeakMap<HTMLMediaElement, AnalysedMedia>();
+
+function getSharedContext(): AudioContext {
+  sharedContext ??= new AudioContext();
+  return sharedContext;
+}
+
+/**
+ * The analyser for a media element, created on first use. The element is
+ * heard through the shared context from then on.
+ */
+export function getMediaAnalyser(media: HTMLMediaElement): MediaAnalyser {
+  const existing = mediaAnalysers.get(media);
+  if (existing) {
+    return existing;
+  }
+
+  const context = getSharedContext();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 256;
+
+  const source =
+    mediaSources.get(media) ?? context.createMediaElementSource(media);
+  mediaSources.set(media, source);
+  source.connect(analyser);
+  analyser.connect(context.destination);
+
+  // Browsers start the context suspended until the viewer interacts, e.g.
+  // by pressing play or unmuting
+  const resume = () => {
+    if (context.state !== "suspended") return;
+
+    context.resume().catch((error) => {
+      console.error("Error resuming media analyser:", error);
+    });
+  };
+  resume();
+  media.addEventListener("play", resume);
+  media.addEventListener("volumechange", resume);
+
+  const created = { context, analyser, source, resume };
+  mediaAnalysers.set(media, created);
+  return created;
+}
+
+/**
+ * Disconnects a media element's analyser, e.g. when its tile unmounts. The
+ * element is silent afterwards until it is analysed again.
+ */
+export function releaseMediaAnalyser(media: HTMLMediaElement): void {
+  const analysed = mediaAnalysers.get(media);
+  if (!analysed) {
+    return;
+  }
+
+  analysed.source.disconnect();
+  analysed.analyser.disconnect();
+  media.removeEventListener("play", analysed.resume);
+  media.removeEventListener("volumechange", analysed.resume);
+  mediaAnalysers.delete(media);
+}
+
+/**
+ * Current loudness (0-1) of what a media element is playing
+ */
+export function getMediaLevel(media: HTMLMediaElement): number {
+  const { analyser } = getMediaAnalyser(media);
+  const samples = new Float32Array(analyser.fftSize);
+  analyser.getFloatTimeDomainData(samples);
+
+  // RMS, boosted the same way as the microphone meter
+  const power =
+    samples.reduce((total, sample) => total + sample * sample, 0) /
+    samples.length;
+  return Math.min(1, Math.sqrt(power) * 4);
+}
+
+export default {
+  getMediaAnalyser,
+  releaseMediaAnalyser,
+  getMediaLevel,
+};
@@ -0,0 +1,214 @@
+/**
+ * LensSpaces - Media Devices
+ *
+ * Camera and microphone selection for creators: the devices the browser
+ * offers, quality presets and the constraints they map to, a microphone
+ * level meter, and the last selection remembered per creator.
+ */
+
+// Types
+export type QualityPresetId = "480p" | "720p" | "1080p";
+
+export interface QualityPreset {
+  id: QualityPresetId;
+  width: number;
+  height: number;
+  videoBitsPerSecond: number; // At 30 fps; higher frame rates get more
+}
+
+export interface DeviceSelection {
+  videoDeviceId: string | null; // Null for the browser's default
+  audioDeviceId: string | null;
+  quality: QualityPresetId;
+  frameRate: number;
+}
+
+export interface MediaDeviceList {
+  cameras: MediaDeviceInfo[];
+  microphones: MediaDeviceInfo[];
+}
+
+export const QUALITY_PRESETS: QualityPreset[] = [
+  { id: "480p", width: 854, height: 480, videoBitsPerSecond: 1_000_000 },
+  { id: "720p", width: 1280, height: 720, videoBitsPerSecond: 2_500_000 },
+  { id: "1080p", width: 1920, height: 1080, videoBitsPerSecond: 5_000_000 },
+];
+
+export const FRAME_RATES = [24, 30, 60];
+
+export const DEFAULT_DEVICE_SELECTION: DeviceSelection = {
+  videoDeviceId: null,
+  audioDeviceId: null,
+  quality: "720p",
+  frameRate: 30,
+};
+
+const PREFERENCES_KEY_PREFIX = "lens-spaces:devices:";
+
+// Bitrates are set for this frame rate and scaled for others
+const BASE_FRAME_RATE = 30;
+
+function getPreferencesKey(streamerAddress: string): string {
+  return `${PREFERENCES_KEY_PREFIX}${streamerAddress.toLowerCase()}`;
+}
+
+export function getQualityPreset(id: QualityPresetId): QualityPreset {
+  return (
+    QUALITY_PRESETS.find((preset) => preset.id === id) ?? QUALITY_PRESETS[1]
+  );
+}
+
+/**
+ * Source bitrate for a selection: the preset's, scaled by frame rate
+ */
+export function getVideoBitsPerSecond(selection: DeviceSelection): number {
+  const preset = getQualityPreset(selection.quality);
+  return Math.round(
+    (preset.videoBitsPerSecond * selection.frameRate) / BASE_FRAME_RATE
+  );
+}
+
+/**
+ * getUserMedia constraints for a selection. Resolution and frame rate are
+ * ideals, so a camera that cannot reach them still opens.
+ */
+export function getMediaConstraints(
+  selection: DeviceSelection,
+  kinds: { video?: boolean; audio?: boolean } = { video: true, audio: true }
+): MediaStreamConstraints {
+  const preset = getQualityPreset(selection.quality);
+
+  return {
+    video: kinds.video
+      ? {
+          deviceId: selection.videoDeviceId
+            ? { exact: selection.videoDeviceId }
+            : undefined,
+          width: { ideal: preset.width },
+          height: { ideal: preset.height },
+          frameRate: { ideal: selection.frameRate },
+        }
+      : false,
+    audio: kinds.audio
+      ? {
+          deviceId: selection.audioDeviceId
+            ? { exact: selection.audioDeviceId }
+            : undefined,
+          echoCancellation: true,
+          noiseSuppression: true,
+        }
+      : false,
+  };
+}
+
+/**
+ * Cameras and microphones the browser offers. Labels stay empty until the
+ * page has been granted access to a device.
+ */
+export async function listMediaDevices(): Promise<MediaDeviceList> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+
+  return {
+    cameras: devices.filter(
+      (device) => device.kind === "videoinput" && device.deviceId
+    ),
+    microphones: devices.filter(
+      (device) => device.kind === "audioinput" && device.deviceId
+    ),
+  };
+}
+
+/**
+ * Reports the loudness of a stream's audio (0-1) on every animation frame
+ * until the returned function is called
+ */
+export function watchAudioLevel(
+  stream: MediaStream,
+  onLevel: (level: number) => void
+): () => void {
+  if (stream.getAudioTracks().length === 0) {
+    onLevel(0);
+    return () => {};
+  }
+
+  const audioContext = new AudioContext();
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = 512;
+  audioContext.createMediaStreamSource(stream).connect(analyser);
+
+  const samples = new Float32Array(analyser.fftSize);
+  let frame = 0;
+
+  const measure = () => {
+    analyser.getFloatTimeDomainData(samples);
+
+    // RMS, boosted so speech fills most of the meter
+    const power =
+      samples.reduce((total, sample) => total + sample * sample, 0) /
+      samples.length;
+    onLevel(Math.min(1, Math.sqrt(power) * 4));
+
+    frame = requestAnimationFrame(measure);
+  };
+  measure();
+
+  return () => {
+    cancelAnimationFrame(frame);
+    audioContext.close().catch((error) => {
+      console.error("Error closing level meter:", error);
+    });
+  };
+}
+
+/**
+ * Saves a creator's device selection for their next stream
+ */
+export function saveDevicePreferences(
+  streamerAddress: string,
+  selection: DeviceSelection
+): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    window.localStorage.setItem(
+      getPreferencesKey(streamerAddress),
+      JSON.stringify(selection)
+    );
+  } catch (error) {
+    console.error("Error saving device preferences:", error);
+  }
+}
+
+/**
+ * Loads a creator's saved device selection, or the defaults
+ */
+export function loadDevicePreferences(
+  streamerAddress: string
+): DeviceSelection {
+  if (typeof window === "undefined") return DEFAULT_DEVICE_SELECTION;
+
+  try {
+    const value = window.localStorage.getItem(
+      getPreferencesKey(streamerAddress)
+    );
+    if (!value) return DEFAULT_DEVICE_SELECTION;
+
+    return { ...DEFAULT_DEVICE_SELECTION, ...JSON.parse(value) };
+  } catch (error) {
+    console.error("Error loading device preferences:", error);
+    return DEFAULT_DEVICE_SELECTION;
+  }
+}
+
+export default {
+  QUALITY_PRESETS,
+  FRAME_RATES,
+  DEFAULT_DEVICE_SELECTION,
+  getQualityPreset,
+  getVideoBitsPerSecond,
+  getMediaConstraints,
+  listMediaDevices,
+  watchAudioLevel,
+  saveDevicePreferences,
+  loadDevicePreferences,
+};
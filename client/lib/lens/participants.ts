@@ -0,0 +1,157 @@
+/**
+ * LensSpaces - Participants
+ *
+ * Co-hosts in a space. The host gives each invited co-host a seat: a small
+ * JSON file on Grove that only the co-host's Lens account can edit. The
+ * co-host records a stream of their own, signed by their own wallet, and
+ * writes its manifest URI into the seat. Viewers follow the seats listed in
+ * the host's manifest to find every participant's track.
+ */
+
+import {
+  ACLType,
+  ChainId,
+  Signer,
+  createACL,
+  resolveUri,
+  updateJson,
+  uploadAsJson,
+} from "@/lib/lens/grove";
+import {
+  ParticipantSeat,
+  StreamManifest,
+  StreamParticipant,
+  parseParticipantSeat,
+} from "@/lib/lens/manifest";
+import { loadStreamManifest } from "@/lib/lens/stream";
+
+// Types
+export type { ParticipantSeat, StreamParticipant } from "@/lib/lens/manifest";
+
+// A co-host's track, once they have gone live
+export interface ParticipantTrack {
+  uri: string;
+  manifest: StreamManifest;
+}
+
+function getSeatACL(account: string) {
+  return createACL(ACLType.LENS_ACCOUNT, ChainId.MAINNET, account);
+}
+
+function isSameAccount(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Creates an empty seat for a co-host. Returns the entry to list in the
+ * host's manifest (see StreamRecorder.addParticipant).
+ */
+export async function createParticipantSeat(
+  hostUri: string,
+  account: string
+): Promise<StreamParticipant> {
+  try {
+    const seat: ParticipantSeat = { hostUri, trackUri: null };
+    const response = await uploadAsJson(seat, { acl: getSeatACL(account) });
+
+    return {
+      account,
+      seatUri: response.uri,
+      invitedAt: Date.now(),
+      removedAt: null,
+    };
+  } catch (error) {
+    console.error("Error creating participant seat:", error);
+    throw new Error("Failed to invite co-host");
+  }
+}
+
+/**
+ * Announces a co-host's track in their seat. The signer must be a wallet
+ * that manages the co-host's Lens account.
+ */
+export async function claimParticipantSeat(
+  participant: StreamParticipant,
+  hostUri: string,
+  trackUri: string,
+  signer: Signer
+): Promise<void> {
+  try {
+    const seat: ParticipantSeat = { hostUri, trackUri };
+    await updateJson(participant.seatUri, seat, signer, {
+      acl: getSeatACL(participant.account),
+    });
+  } catch (error) {
+    console.error("Error claiming participant seat:", error);
+    throw new Error("Failed to join the space");
+  }
+}
+
+/**
+ * Loads a seat from Grove
+ */
+export async function loadParticipantSeat(
+  seatUri: string
+): Promise<ParticipantSeat> {
+  const response = await fetch(resolveUri(seatUri), { cache: "no-cache" });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch participant seat: ${response.status}`);
+  }
+
+  return parseParticipantSeat(await response.json());
+}
+
+/**
+ * The seat a co-host was given in a space, unless they were never invited or
+ * have been removed
+ */
+export function findParticipant(
+  manifest: StreamManifest,
+  account: string
+): StreamParticipant | null {
+  return (
+    (manifest.participants ?? []).find(
+      (participant) =>
+        participant.removedAt === null &&
+        isSameAccount(participant.account, account)
+    ) ?? null
+  );
+}
+
+/**
+ * Resolves a participant's track through their seat: null while they have
+ * not gone live yet. A seat naming a track that was not recorded by the
+ * invited account for this space is rejected.
+ */
+export async function loadParticipantTrack(
+  participant: StreamParticipant,
+  hostUri: string
+): Promise<ParticipantTrack | null> {
+  const seat = await loadParticipantSeat(participant.seatUri);
+
+  if (seat.hostUri !== hostUri) {
+    throw new Error("Seat belongs to a different space");
+  }
+  if (!seat.trackUri) {
+    return null;
+  }
+
+  const track = await loadStreamManifest(seat.trackUri);
+  if (!isSameAccount(track.creator, participant.account)) {
+    throw new Error("Track was not recorded by the invited co-host");
+  }
+  if (track.hostUri !== hostUri) {
+    throw new Error("Track was recorded for a different space");
+  }
+
+  return { uri: seat.trackUri, manifest: track };
+}
+
+export default {
+  createParticipantSeat,
+  claimParticipantSeat,
+  loadParticipantSeat,
+  findParticipant,
+  loadParticipantTrack,
+};
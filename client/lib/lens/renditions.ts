@@ -0,0 +1,94 @@
+/**
+ * LensSpaces - Renditions
+ *
+ * Produces downscaled copies of a camera stream so the recorder can publish
+ * lower-bitrate renditions next to the source for viewers on slow connections.
+ */
+
+import { createTicker } from "@/lib/lens/ticker";
+
+// Types
+export interface RenditionConfig {
+  id: string; // Shown to viewers, e.g. "480p"
+  height: number; // Output height; the width follows the source aspect ratio
+  videoBitsPerSecond: number;
+}
+
+export interface DownscaledStream {
+  stream: MediaStream;
+  width: number;
+  height: number;
+  stop(): void;
+}
+
+// Renditions recorded when adaptive quality is enabled on /start
+export const DEFAULT_RENDITIONS: RenditionConfig[] = [
+  { id: "480p", height: 480, videoBitsPerSecond: 1_000_000 },
+  { id: "240p", height: 240, videoBitsPerSecond: 300_000 },
+];
+
+/**
+ * Draws the source video onto a smaller canvas and captures it as a new
+ * stream. Audio tracks are shared with the source, not copied.
+ */
+export function createDownscaledStream(
+  source: MediaStream,
+  height: number,
+  frameRate: number = 30
+): DownscaledStream {
+  const [videoTrack] = source.getVideoTracks();
+  if (!videoTrack) {
+    throw new Error("Cannot downscale a stream without video");
+  }
+
+  const settings = videoTrack.getSettings();
+  const sourceWidth = settings.width || 1280;
+  const sourceHeight = settings.height || 720;
+
+  // Never upscale; encoders want even dimensions
+  const scale = Math.min(1, height / sourceHeight);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round((sourceWidth * scale) / 2) * 2;
+  canvas.height = Math.round((sourceHeight * scale) / 2) * 2;
+
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Canvas 2D context is not available");
+  }
+
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = new MediaStream([videoTrack]);
+  video.play().catch((error) => {
+    console.error("Error playing downscaler source:", error);
+  });
+
+  // Not requestAnimationFrame: a tab left in the background while sharing a
+  // screen would stop drawing
+  const stopTicker = createTicker(1000 / frameRate, () => {
+    if (video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    }
+  });
+
+  const stream = canvas.captureStream(frameRate);
+  source.getAudioTracks().forEach((track) => stream.addTrack(track));
+
+  return {
+    stream,
+    width: canvas.width,
+    height: canvas.height,
+    stop() {
+      stopTicker();
+      stream.getVideoTracks().forEach((track) => track.stop());
+      video.pause();
+      video.srcObject = null;
+    },
+  };
+}
+
+export default {
+  DEFAULT_RENDITIONS,
+  createDownscaledStream,
+};
@@ -0,0 +1,252 @@
+/**
+ * LensSpaces - Source Buffer Manager
+ *
+ * Serializes appends to a SourceBuffer and keeps its size bounded: media more
+ * than backBufferSeconds behind the playhead is evicted, and an append that
+ * hits QuotaExceededError is retried after making room.
+ */
+
+// Types
+export interface SourceBufferManagerOptions {
+  backBufferSeconds: number; // Media kept behind currentTime
+}
+
+type BufferOperation =
+  | {
+      type: "append";
+      data: ArrayBuffer;
+      timestampOffset?: number;
+      attempts: number;
+    }
+  | { type: "remove"; start: number; end: number };
+
+// Eviction waits until this much extra media has built up, so it runs in
+// a few larger removes rather than one per append
+const EVICTION_SLACK_SECONDS = 10;
+
+// Closest to the playhead that eviction may cut when the quota is hit
+const MIN_BACK_BUFFER_SECONDS = 5;
+
+// How long to wait for playback to free space when nothing can be evicted
+const QUOTA_RETRY_DELAY = 1000;
+
+// Attempts before an append that never fits is dropped
+const MAX_APPEND_ATTEMPTS = 10;
+
+/**
+ * Queues operations on a SourceBuffer and runs them one at a time
+ */
+export class SourceBufferManager {
+  private sourceBuffer: SourceBuffer;
+  private videoElement: HTMLVideoElement;
+  private options: SourceBufferManagerOptions;
+  private operations: BufferOperation[] = [];
+  private idleWaiters: (() => void)[] = [];
+  private retryTimeout: number | null = null;
+  private isClosed: boolean = false;
+
+  // Events
+  private onErrorCallback: ((error: Error) => void) | null = null;
+
+  constructor(
+    sourceBuffer: SourceBuffer,
+    videoElement: HTMLVideoElement,
+    options: SourceBufferManagerOptions
+  ) {
+    this.sourceBuffer = sourceBuffer;
+    this.videoElement = videoElement;
+    this.options = options;
+
+    this.sourceBuffer.addEventListener("updateend", this.handleUpdateEnd);
+  }
+
+  /**
+   * Called when an append fails for good; the data is dropped
+   */
+  public onError(callback: (error: Error) => void): void {
+    this.onErrorCallback = callback;
+  }
+
+  /**
+   * Queues data for the buffer. With a timestampOffset the append starts at
+   * a new position, applied just before the data is appended.
+   */
+  public append(data: ArrayBuffer, timestampOffset?: number): void {
+    if (this.isClosed) {
+      return;
+    }
+
+    this.operations.push({ type: "append", data, timestampOffset, attempts: 0 });
+    this.processNext();
+  }
+
+  /**
+   * Resolves once every queued operation has finished
+   */
+  public waitForIdle(): Promise<void> {
+    if (this.isIdle()) {
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve) => {
+      this.idleWaiters.push(resolve);
+    });
+  }
+
+  /**
+   * Drops queued operations and stops listening to the SourceBuffer
+   */
+  public close(): void {
+    this.isClosed = true;
+    this.operations = [];
+    this.sourceBuffer.removeEventListener("updateend", this.handleUpdateEnd);
+
+    if (this.retryTimeout !== null) {
+      clearTimeout(this.retryTimeout);
+      this.retryTimeout = null;
+    }
+
+    this.flushIdleWaiters();
+  }
+
+  private isIdle(): boolean {
+    return (
+      this.operations.length === 0 &&
+      this.retryTimeout === null &&
+      !this.sourceBuffer.updating
+    );
+  }
+
+  private handleUpdateEnd = (): void => {
+    this.processNext();
+  };
+
+  private processNext(): void {
+    if (
+      this.isClosed ||
+      this.sourceBuffer.updating ||
+      this.retryTimeout !== null
+    ) {
+      return;
+    }
+
+    const operation = this.operations.shift();
+    if (!operation) {
+      this.flushIdleWaiters();
+      return;
+    }
+
+    if (operation.type === "remove") {
+      try {
+        this.sourceBuffer.remove(operation.start, operation.end);
+      } catch (error) {
+        console.error("Error evicting buffered media:", error);
+        this.processNext();
+      }
+      return;
+    }
+
+    // Trim the back buffer first; the append runs after the remove finishes
+    const eviction = this.getEviction(this.options.backBufferSeconds, true);
+    if (eviction) {
+      this.operations.unshift(eviction, operation);
+      this.processNext();
+      return;
+    }
+
+    try {
+      if (operation.timestampOffset !== undefined && operation.attempts === 0) {
+        this.applyTimestampOffset(operation.timestampOffset);
+      }
+
+      operation.attempts++;
+      this.sourceBuffer.appendBuffer(operation.data);
+    } catch (error) {
+      this.handleAppendError(operation, error);
+    }
+  }
+
+  private applyTimestampOffset(offset: number): void {
+    try {
+      // Also reopens a MediaSource that was ended
+      this.sourceBuffer.timestampOffset = offset;
+    } catch {
+      // The last append stopped inside a Cluster; drop the parser state
+      this.sourceBuffer.abort();
+      this.sourceBuffer.timestampOffset = offset;
+    }
+  }
+
+  private handleAppendError(
+    operation: Extract<BufferOperation, { type: "append" }>,
+    error: unknown
+  ): void {
+    const isQuotaError =
+      error instanceof DOMException && error.name === "QuotaExceededError";
+
+    if (!isQuotaError || operation.attempts >= MAX_APPEND_ATTEMPTS) {
+      console.error("Error appending chunk to buffer:", error);
+      this.reportError(
+        new Error(
+          isQuotaError
+            ? "Playback buffer is full; a chunk was skipped"
+            : "Failed to append chunk to the playback buffer"
+        )
+      );
+
+      // Try next chunk on error
+      this.processNext();
+      return;
+    }
+
+    // Make room as close to the playhead as allowed, then try again
+    const eviction = this.getEviction(MIN_BACK_BUFFER_SECONDS, false);
+    this.operations.unshift(...(eviction ? [eviction] : []), operation);
+
+    if (eviction) {
+      this.processNext();
+    } else {
+      // Everything buffered is ahead of the playhead; wait for it to play out
+      this.retryTimeout = window.setTimeout(() => {
+        this.retryTimeout = null;
+        this.processNext();
+      }, QUOTA_RETRY_DELAY);
+    }
+  }
+
+  /**
+   * A remove for media more than keepSeconds behind the playhead, or null if
+   * there is nothing (or, with slack, not enough) to evict
+   */
+  private getEviction(
+    keepSeconds: number,
+    withSlack: boolean
+  ): BufferOperation | null {
+    const buffered = this.sourceBuffer.buffered;
+    if (buffered.length === 0) {
+      return null;
+    }
+
+    const start = buffered.start(0);
+    const end = this.videoElement.currentTime - keepSeconds;
+    const threshold = withSlack ? EVICTION_SLACK_SECONDS : 0;
+
+    return end - start > threshold ? { type: "remove", start, end } : null;
+  }
+
+  private reportError(error: Error): void {
+    if (this.onErrorCallback) {
+      this.onErrorCallback(error);
+    }
+  }
+
+  private flushIdleWaiters(): void {
+    const waiters = this.idleWaiters;
+    this.idleWaiters = [];
+    waiters.forEach((resolve) => resolve());
+  }
+}
+
+export default {
+  SourceBufferManager,
+};
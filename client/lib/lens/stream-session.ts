@@ -0,0 +1,91 @@
+/**
+ * LensSpaces - Stream Sessions
+ *
+ * Persists the state of an in-progress recording in localStorage so a creator
+ * can resume their stream after a tab reload or browser crash.
+ */
+
+import type { StreamKind } from "@/lib/lens/manifest";
+
+// Types
+export interface StreamSession {
+  streamUri: string;
+  title: string;
+  creator: string;
+  chunkCount: number;
+  chunkDuration: number;
+  kind?: StreamKind; // Missing for sessions saved before audio Spaces
+  updatedAt: number;
+}
+
+const SESSION_KEY_PREFIX = "lens-spaces:stream-session:";
+
+function getSessionKey(streamerAddress: string): string {
+  return `${SESSION_KEY_PREFIX}${streamerAddress.toLowerCase()}`;
+}
+
+/**
+ * Saves the session for a streamer, replacing any previous one
+ */
+export function saveStreamSession(
+  streamerAddress: string,
+  session: StreamSession
+): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    window.localStorage.setItem(
+      getSessionKey(streamerAddress),
+      JSON.stringify(session)
+    );
+  } catch (error) {
+    // Storage can be full or disabled; resuming is best effort
+    console.error("Error saving stream session:", error);
+  }
+}
+
+/**
+ * Loads the saved session for a streamer, if there is one
+ */
+export function loadStreamSession(
+  streamerAddress: string
+): StreamSession | null {
+  if (typeof window === "undefined") return null;
+
+  try {
+    const value = window.localStorage.getItem(getSessionKey(streamerAddress));
+    if (!value) return null;
+
+    const { signingKey, ...session } = JSON.parse(value);
+
+    // Older sessions also stored the manifest signing key; it stays in
+    // memory now and a resume asks the wallet to authorize a new one
+    if (signingKey) {
+      saveStreamSession(streamerAddress, session);
+    }
+
+    return session.streamUri ? (session as StreamSession) : null;
+  } catch (error) {
+    console.error("Error loading stream session:", error);
+    return null;
+  }
+}
+
+/**
+ * Removes the saved session for a streamer
+ */
+export function clearStreamSession(streamerAddress: string): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    window.localStorage.removeItem(getSessionKey(streamerAddress));
+  } catch (error) {
+    console.error("Error clearing stream session:", error);
+  }
+}
+
+export default {
+  saveStreamSession,
+  loadStreamSession,
+  clearStreamSession,
+};
@@ -11,50 +11,322 @@ import {
   createACL,
   uploadFile,
   uploadAsJson,
-  updateJson,
   resolveUri,
-  Signer,
 } from "@/lib/lens/grove";
+import { clearStreamSession, saveStreamSession } from "@/lib/lens/stream-session";
+import {
+  CURRENT_MANIFEST_VERSION,
+  ManifestPage,
+  ManifestPageContents,
+  StreamChunk,
+  StreamClip,
+  StreamInitSegment,
+  StreamKind,
+  StreamManifest,
+  StreamParticipant,
+  StreamPreview,
+  StreamRendition,
+  ManifestValidationError,
+  computeSha256,
+  findInitSegment,
+  mergeManifestPages,
+  parseManifestPage,
+  parseStreamManifest,
+} from "@/lib/lens/manifest";
+import {
+  ManifestSigner,
+  ManifestVerification,
+  verifyManifestSignature,
+} from "@/lib/lens/manifest-signing";
+import {
+  UploadQueue,
+  QueuedChunk,
+  ChunkStatusUpdate,
+  ChunkUploadStatus,
+} from "@/lib/lens/upload-queue";
+import {
+  DownscaledStream,
+  RenditionConfig,
+  createDownscaledStream,
+} from "@/lib/lens/renditions";
+import {
+  WebmRemuxer,
+  extractInitSegment,
+  hasInitSegment,
+  trimToFirstCluster,
+} from "@/lib/lens/webm";
+import { SourceBufferManager } from "@/lib/lens/source-buffer";
+import { ChunkPrefetcher } from "@/lib/lens/chunk-prefetcher";
+import { captureFrame } from "@/lib/lens/thumbnails";
 
 // Types
-export interface StreamChunk {
-  uri: string;
-  timestamp: number;
-  index: number;
-}
-
-export interface StreamManifest {
-  version: string;
-  title: string;
-  creator: string;
-  startedAt: number;
-  endedAt: number | null;
-  chunkCount: number;
-  chunks: StreamChunk[];
-  status: "live" | "ended";
-}
+export type {
+  ManifestPage,
+  ManifestPageContents,
+  StreamChunk,
+  StreamClip,
+  StreamInitSegment,
+  StreamKind,
+  StreamManifest,
+  StreamParticipant,
+  ParticipantSeat,
+  StreamPreview,
+  StreamRendition,
+} from "@/lib/lens/manifest";
+export { ManifestValidationError } from "@/lib/lens/manifest";
 
 export interface StreamRecorderOptions {
   chunkDuration: number; // Duration in ms for each chunk
+  kind?: StreamKind; // "audio" records sound only (defaults to "video")
   mimeType?: string; // Preferred mime type (falls back to browser supported types)
+  retryBaseDelay?: number; // First retry delay for a failed upload (ms), doubled per attempt
+  retryMaxDelay?: number; // Upper bound for the retry delay (ms)
+  maxFlushAttempts?: number; // Consecutive failures tolerated while stopping before giving up
+  uploadConcurrency?: number; // Chunks uploaded to Grove in parallel
+  videoBitsPerSecond?: number; // Source rendition bitrate (browser default if unset)
+  renditions?: RenditionConfig[]; // Extra downscaled renditions for adaptive playback
+  thumbnailInterval?: number; // Source chunks between preview frames; 0 disables them
+  hostUri?: string; // Records a co-host's track for this space instead of a space of its own
+}
+
+// New chunks for one chunk list, plus headers of any recordings they start
+export interface ChunkListUpdate {
+  chunks: StreamChunk[];
+  initSegments?: StreamInitSegment[];
 }
 
 export interface StreamPlayerOptions {
   autoPlay?: boolean;
   muted?: boolean;
   controls?: boolean;
-  pollingInterval?: number; // How often to check for new chunks (ms)
+  pollingInterval?: number; // Poll delay once the next chunk is due (ms); grows while none arrives
+  startAtLiveEdge?: boolean; // Begin live streams at the newest chunk instead of the first
+  dvrWindowSeconds?: number; // How far behind the live edge viewers can seek
+  lowLatency?: boolean; // Play faster, or jump ahead, to stay near the live edge
+  targetLatency?: number; // Seconds behind live that low-latency mode aims for (at least one chunk)
+  maxPlaybackRate?: number; // Fastest playback speed low-latency mode catches up with
+  maxLatencyDrift?: number; // Seconds past targetLatency at which low-latency mode seeks to live
+  startTime?: number; // Seconds into an ended stream to start playback at
+  backBufferSeconds?: number; // Played media kept buffered before it is evicted
+  trustedSigners?: string[]; // Wallets allowed to sign the manifest; unverified while empty
+  abr?: boolean; // Switch renditions based on download throughput
+  prefetchChunks?: number; // Upcoming chunks downloaded in parallel with the one being appended
+}
+
+export type StreamPlayerStatus =
+  | "idle"
+  | "loading"
+  | "buffering"
+  | "playing"
+  | "paused"
+  | "ended"
+  | "reconnecting" // Rebuilding playback after a media error or a stall
+  | "error";
+
+export interface StreamPlayerState {
+  status: StreamPlayerStatus;
+  isLive: boolean; // Whether the manifest still reports the stream as live
+  manifest: StreamManifest | null;
+  verification: ManifestVerification | null; // Null until the first check completes
+  rendition: string | null; // Rendition of the chunk appended last
+  secondsBehindLive: number | null; // Null unless the stream is live
+  isBehindLive: boolean; // Whether "Go Live" would move the playhead forward
+  error: Error | null;
+}
+
+// An extra rendition being recorded from a downscaled copy of the stream
+interface RenditionRecorder {
+  config: RenditionConfig;
+  mediaRecorder: MediaRecorder;
+  downscaled: DownscaledStream;
+  chunkCounter: number;
+  lastChunkAt: number;
+}
+
+// A rendition as the player sees it; the source rendition's id is SOURCE_RENDITION
+interface PlayableRendition {
+  id: string;
+  codec: string | null;
+  videoBitsPerSecond: number | null;
+  chunks: StreamChunk[];
+  initSegments?: StreamInitSegment[];
+}
+
+// A chunk's place on the timeline of an ended stream, in seconds. Media
+// timestamps restart with each recording session, so they are offset by
+// the session's start.
+interface VodSegment {
+  chunk: StreamChunk; // Source rendition
+  start: number;
+  end: number;
+  sessionStart: number;
+}
+
+// MediaRecorder options, plus Chrome's keyframe interval hint that the DOM
+// typings do not include yet
+type RecorderOptions = MediaRecorderOptions & {
+  videoKeyFrameIntervalDuration?: number;
+};
+
+// The source chunks of a manifest or one of its renditions
+type ChunkList = Pick<StreamRendition, "chunks" | "initSegments">;
+
+// Where the WebM header for a chunk comes from. key identifies the recording
+// session; inChunk means the chunk starts with the header itself.
+interface HeaderSource {
+  key: string;
+  inChunk: boolean;
+  load: () => Promise<ArrayBuffer | null>;
 }
 
+// Server route that holds the manifest ACL key (app/api/manifest/route.ts)
+const MANIFEST_ROUTE = "/api/manifest";
+
+// Source chunks per archived manifest page. The manifest archives its oldest
+// page once it lists twice this many, so it never grows past that.
+const MANIFEST_PAGE_SIZE = 100;
+
+const DEFAULT_PLAYER_OPTIONS: StreamPlayerOptions = {
+  autoPlay: true,
+  muted: true,
+  controls: true,
+  pollingInterval: 2000,
+  startAtLiveEdge: true,
+  dvrWindowSeconds: 120,
+  lowLatency: false,
+  targetLatency: 3,
+  maxPlaybackRate: 1.1,
+  maxLatencyDrift: 8,
+  backBufferSeconds: 60,
+  abr: true,
+  prefetchChunks: 3,
+};
+
+const SOURCE_RENDITION = "source";
+
+// Only pick a rendition whose bitrate fits in this share of measured throughput
+const ABR_SAFETY_FACTOR = 0.8;
+
+// Weight of the newest throughput sample in the moving average
+const THROUGHPUT_SMOOTHING = 0.3;
+
+// Recent chunks used to estimate a rendition's actual bitrate
+const BITRATE_SAMPLE_CHUNKS = 5;
+
+// A recording restarted by a resume leaves at least this gap between chunks
+const SESSION_GAP_MS = 1000;
+
+// Drift behind the live position tolerated before the viewer counts as behind
+const LIVE_EDGE_TOLERANCE_SECONDS = 10;
+
+// Latency over the target that low-latency mode lets be, so the playback
+// speed does not flap around it (seconds)
+const CATCH_UP_TOLERANCE_SECONDS = 0.5;
+
+// Low-latency playback speeds up by this much per second behind the target
+const CATCH_UP_RATE_PER_SECOND = 0.02;
+
+// Media that must stay buffered ahead of the playhead while playing faster
+// than real time (seconds)
+const MIN_CATCH_UP_BUFFER_SECONDS = 1;
+
+// How far ahead of the playhead an ended stream is loaded
+const VOD_BUFFER_AHEAD_SECONDS = 60;
+
+// Keyframe spacing asked of the recorder. Playback that starts mid-recording
+// (a seek, the live edge, a rendition switch) begins at the chunk's first
+// Cluster, and Clusters start at keyframes.
+const KEYFRAME_INTERVAL_MS = 2000;
+
+// Time after a chunk is due to finish recording before it is expected in the
+// manifest: its upload plus the manifest write
+const PUBLISH_MARGIN_MS = 1500;
+
+// Each poll that finds no overdue chunk stretches the next delay by this
+const POLL_BACKOFF_FACTOR = 1.5;
+
+// Bounds for the delay between manifest polls (ms)
+const MIN_POLL_DELAY = 500;
+const MAX_POLL_DELAY = 30000;
+
+// Polls of a hidden tab that nobody can hear wait at least this long (ms)
+const HIDDEN_POLL_DELAY = 30000;
+
+// Spaces with co-hosts are polled at least this often (ms), so co-hosts
+// joining or being removed show up without waiting for the host's next chunk
+const PARTICIPANT_POLL_DELAY = 5000;
+
+// How often the playhead is checked for stalls (ms)
+const STALL_CHECK_INTERVAL = 1000;
+
+// Gaps in the buffer up to this long are jumped over (seconds)
+const MAX_GAP_SECONDS = 2;
+
+// Distance from the end of a buffered range that counts as reaching it (seconds)
+const GAP_TOLERANCE_SECONDS = 0.1;
+
+// How long the playhead may sit still on buffered media before the decoder
+// is considered stuck and playback is rebuilt; after three times this, a
+// chunk that will not load is skipped (ms)
+const STALL_TIMEOUT = 5000;
+
+// Rebuilds tried before a playback error is reported as fatal; the count
+// resets once playback has run this long (seconds) after a rebuild
+const MAX_RECOVERY_ATTEMPTS = 3;
+const RECOVERY_RESET_SECONDS = 10;
+
+// Downloads tried per chunk before it is skipped, and the delay before the
+// first retry (ms), growing with each attempt
+const CHUNK_FETCH_ATTEMPTS = 3;
+const CHUNK_RETRY_DELAY = 1000;
+
+// Longest clip that can be cut from a stream (ms)
+export const MAX_CLIP_DURATION_MS = 3 * 60 * 1000;
+
+// Source chunks between preview frames, and how many recent frames the
+// manifest keeps for explore cards to cycle through
+const DEFAULT_THUMBNAIL_INTERVAL = 3;
+const MAX_PREVIEWS = 6;
+
+// Chunks fetched at once while a recording is downloaded as one file
+const RECORDING_DOWNLOAD_CONCURRENCY = 3;
+
+// Bytes requested when only a chunk's WebM header is needed
+const INIT_SEGMENT_RANGE = 64 * 1024;
+
+// Recording and playback codecs for each kind of stream, in order of
+// preference
+const STREAM_MIME_TYPES: Record<StreamKind, string[]> = {
+  video: [
+    "video/webm;codecs=vp9,opus",
+    "video/webm;codecs=vp8,opus",
+    "video/webm",
+  ],
+  audio: ["audio/webm;codecs=opus", "audio/webm"],
+};
+
+// Chunk duration for audio-only streams (ms). Audio chunks are tiny, so
+// shorter ones cost little and keep listeners closer to live.
+export const AUDIO_CHUNK_DURATION = 5000;
+
+const MEDIA_ERROR_NAMES: Record<number, string> = {
+  1: "MEDIA_ERR_ABORTED",
+  2: "MEDIA_ERR_NETWORK",
+  3: "MEDIA_ERR_DECODE",
+  4: "MEDIA_ERR_SRC_NOT_SUPPORTED",
+};
+
 /**
  * Creates a new stream manifest
  */
 export function createStreamManifest(
   title: string,
-  creator: string
+  creator: string,
+  kind: StreamKind = "video",
+  hostUri?: string
 ): StreamManifest {
   return {
-    version: "1.0",
+    version: CURRENT_MANIFEST_VERSION,
     title,
     creator,
     startedAt: Date.now(),
@@ -62,31 +334,46 @@ export function createStreamManifest(
     chunkCount: 0,
     chunks: [],
     status: "live",
+    codec: null,
+    // Older players assume video, so only audio streams say what they are
+    ...(kind === "audio" ? { kind } : {}),
+    ...(hostUri ? { hostUri } : {}),
   };
 }
 
 /**
- * Initializes a new stream by uploading the initial manifest
+ * Sends a signed manifest revision to the app's manifest route, which owns the
+ * manifest ACL on Grove. Returns the manifest's Grove URI.
  */
-export async function initializeStream(
+async function publishManifest(
   manifest: StreamManifest,
-  userAddress: string
+  streamUri: string | null
 ): Promise<string> {
-  try {
-    // Create mutable ACL for the streamer (only they can update)
-    const updateACL = createACL(
-      ACLType.WALLET_ADDRESS,
-      ChainId.MAINNET,
-      userAddress
+  const response = await fetch(MANIFEST_ROUTE, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ streamUri, manifest }),
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || !result.uri) {
+    throw new Error(
+      result.error || `Manifest write rejected: ${response.status}`
     );
+  }
 
-    // Upload initial manifest to Grove
-    const response = await uploadAsJson(manifest, { acl: updateACL });
-    console.log(
-      `https://api.grove.storage/status/${response.resource.storageKey}`
-    );
+  return result.uri;
+}
 
-    return response.uri;
+/**
+ * Initializes a new stream by uploading the initial manifest
+ */
+export async function initializeStream(
+  manifest: StreamManifest,
+  manifestSigner: ManifestSigner
+): Promise<string> {
+  try {
+    return await publishManifest(await manifestSigner.sign(manifest), null);
   } catch (error) {
     console.error("Error initializing stream:", error);
     throw new Error("Failed to initialize stream");
@@ -98,15 +385,17 @@ export async function initializeStream(
  */
 export async function uploadStreamChunk(
   chunk: Blob,
-  index: number
+  index: number,
+  rendition: string | null = null
 ): Promise<string> {
   try {
     // Create immutable ACL for chunks (anyone can view)
     const viewACL = createACL(ACLType.IMMUTABLE, ChainId.MAINNET);
 
     // Create a file from the chunk
-    const file = new File([chunk], `chunk-${index}-${Date.now()}.webm`, {
-      type: "video/webm",
+    const prefix = rendition ? `chunk-${rendition}` : "chunk";
+    const file = new File([chunk], `${prefix}-${index}-${Date.now()}.webm`, {
+      type: chunk.type || "video/webm",
     });
 
     // Upload file to Grove
@@ -119,40 +408,159 @@ export async function uploadStreamChunk(
 }
 
 /**
- * Updates the stream manifest with a new chunk
+ * Stores the WebM header of a chunk that starts a recording as its own file,
+ * so viewers can begin playback at any later chunk. Returns null for chunks
+ * that continue a recording.
+ */
+export async function uploadInitSegment(
+  chunk: Blob,
+  index: number,
+  rendition: string | null = null
+): Promise<StreamInitSegment | null> {
+  const initData = extractInitSegment(await chunk.arrayBuffer());
+  if (!initData) {
+    return null;
+  }
+
+  try {
+    const viewACL = createACL(ACLType.IMMUTABLE, ChainId.MAINNET);
+    const prefix = rendition ? `init-${rendition}` : "init";
+    const file = new File([initData], `${prefix}-${index}-${Date.now()}.webm`, {
+      type: chunk.type || "video/webm",
+    });
+
+    const response = await uploadFile(file, { acl: viewACL });
+    return {
+      uri: response.uri,
+      firstIndex: index,
+      byteSize: initData.byteLength,
+      sha256: await computeSha256(initData),
+    };
+  } catch (error) {
+    console.error("Error uploading init segment:", error);
+    throw new Error("Failed to upload stream init segment");
+  }
+}
+
+/**
+ * Uploads a preview frame to Grove
+ */
+export async function uploadThumbnail(
+  frame: Blob,
+  index: number
+): Promise<string> {
+  try {
+    const viewACL = createACL(ACLType.IMMUTABLE, ChainId.MAINNET);
+    const file = new File([frame], `thumbnail-${index}-${Date.now()}.jpg`, {
+      type: "image/jpeg",
+    });
+
+    const response = await uploadFile(file, { acl: viewACL });
+    return response.uri;
+  } catch (error) {
+    console.error("Error uploading thumbnail:", error);
+    throw new Error("Failed to upload stream thumbnail");
+  }
+}
+
+/**
+ * Adds chunks to a chunk list, ignoring ones already in it and keeping it
+ * ordered by index
+ */
+function mergeChunks(
+  chunks: StreamChunk[],
+  newChunks: StreamChunk[]
+): StreamChunk[] {
+  const knownIndices = new Set(chunks.map((chunk) => chunk.index));
+
+  return [
+    ...chunks,
+    ...newChunks.filter((chunk) => !knownIndices.has(chunk.index)),
+  ].sort((a, b) => a.index - b.index);
+}
+
+function mergeInitSegments(
+  initSegments: StreamInitSegment[] = [],
+  newInitSegments: StreamInitSegment[] = []
+): StreamInitSegment[] {
+  const knownIndices = new Set(initSegments.map((entry) => entry.firstIndex));
+
+  return [
+    ...initSegments,
+    ...newInitSegments.filter((entry) => !knownIndices.has(entry.firstIndex)),
+  ].sort((a, b) => a.firstIndex - b.firstIndex);
+}
+
+/**
+ * The first chunk index not covered by the manifest's archived pages
+ */
+function getFirstUnarchivedIndex(manifest: StreamManifest): number {
+  const pages = manifest.pages ?? [];
+  return pages.length > 0 ? pages[pages.length - 1].lastIndex + 1 : 0;
+}
+
+/**
+ * Applies an update to the manifest's source chunk list or a rendition.
+ * Chunks below firstIndex belong to archived pages and are dropped; a
+ * rendition chunk that arrives that late is covered by the source.
+ */
+function applyChunkListUpdate<
+  T extends { chunks: StreamChunk[]; initSegments?: StreamInitSegment[] }
+>(list: T, update: ChunkListUpdate | undefined, firstIndex: number): T {
+  if (!update) {
+    return list;
+  }
+
+  const initSegments = mergeInitSegments(list.initSegments, update.initSegments);
+  return {
+    ...list,
+    chunks: mergeChunks(
+      list.chunks,
+      update.chunks.filter((chunk) => chunk.index >= firstIndex)
+    ),
+    ...(initSegments.length > 0 ? { initSegments } : {}),
+  };
+}
+
+/**
+ * Updates the stream manifest with one or more new chunks in a single write.
+ * renditionUpdates holds new chunks for extra renditions, keyed by rendition id.
  */
 export async function updateStreamManifest(
   streamUri: string,
   manifest: StreamManifest,
-  chunkUri: string,
-  index: number,
-  userAddress: string,
-  signer: Signer
+  update: ChunkListUpdate,
+  manifestSigner: ManifestSigner,
+  renditionUpdates: Record<string, ChunkListUpdate> = {}
 ): Promise<StreamManifest> {
   try {
-    // Create updated manifest with new chunk
-    const updatedManifest: StreamManifest = {
-      ...manifest,
-      chunkCount: manifest.chunkCount + 1,
-      chunks: [
-        ...manifest.chunks,
-        {
-          uri: chunkUri,
-          timestamp: Date.now(),
-          index,
-        },
-      ],
+    const firstIndex = getFirstUnarchivedIndex(manifest);
+    let updated: StreamManifest = {
+      ...applyChunkListUpdate(manifest, update, firstIndex),
+      renditions: manifest.renditions?.map((rendition) =>
+        applyChunkListUpdate(
+          rendition,
+          renditionUpdates[rendition.id],
+          firstIndex
+        )
+      ),
     };
 
-    // Create ACL for updating
-    const updateACL = createACL(
-      ACLType.WALLET_ADDRESS,
-      ChainId.MAINNET,
-      userAddress
-    );
+    // Viewers poll the manifest; keep it to the recent chunks
+    while (updated.chunks.length >= MANIFEST_PAGE_SIZE * 2) {
+      updated = await archiveOldestChunks(updated);
+    }
 
-    // Update manifest in Grove
-    await updateJson(streamUri, updatedManifest, signer, { acl: updateACL });
+    // Create updated manifest with new chunks
+    const updatedManifest = await manifestSigner.sign({
+      ...updated,
+      chunkCount: (updated.pages ?? []).reduce(
+        (total, page) => total + page.chunkCount,
+        updated.chunks.length
+      ),
+    });
+
+    await publishManifest(updatedManifest, streamUri);
 
     return updatedManifest;
   } catch (error) {
@@ -161,32 +569,79 @@ export async function updateStreamManifest(
   }
 }
 
+/**
+ * Moves the manifest's oldest MANIFEST_PAGE_SIZE source chunks, and the
+ * rendition chunks recorded with them, into an immutable page on Grove
+ */
+async function archiveOldestChunks(
+  manifest: StreamManifest
+): Promise<StreamManifest> {
+  const firstIndex = getFirstUnarchivedIndex(manifest);
+  const lastIndex = manifest.chunks[MANIFEST_PAGE_SIZE - 1].index;
+  const isArchived = (chunk: StreamChunk) => chunk.index <= lastIndex;
+
+  const contents: ManifestPageContents = {
+    version: CURRENT_MANIFEST_VERSION,
+    firstIndex,
+    lastIndex,
+    chunks: manifest.chunks.filter(isArchived),
+    renditions: manifest.renditions?.map((rendition) => ({
+      id: rendition.id,
+      chunks: rendition.chunks.filter(isArchived),
+    })),
+  };
+
+  // Uploaded as exact bytes so the digest in the manifest matches the file
+  const file = new File(
+    [JSON.stringify(contents)],
+    `manifest-page-${firstIndex}-${Date.now()}.json`,
+    { type: "application/json" }
+  );
+  const response = await uploadFile(file, {
+    acl: createACL(ACLType.IMMUTABLE, ChainId.MAINNET),
+  });
+
+  const durations = contents.chunks.map((chunk) => chunk.durationMs);
+  const page: ManifestPage = {
+    uri: response.uri,
+    firstIndex,
+    lastIndex,
+    chunkCount: contents.chunks.length,
+    durationMs: durations.includes(null)
+      ? null
+      : (durations as number[]).reduce((total, ms) => total + ms, 0),
+    byteSize: file.size,
+    sha256: await computeSha256(file),
+  };
+
+  return {
+    ...manifest,
+    chunks: manifest.chunks.filter((chunk) => !isArchived(chunk)),
+    renditions: manifest.renditions?.map((rendition) => ({
+      ...rendition,
+      chunks: rendition.chunks.filter((chunk) => !isArchived(chunk)),
+    })),
+    pages: [...(manifest.pages ?? []), page],
+  };
+}
+
 /**
  * Ends a stream by updating its status
  */
 export async function endStream(
   streamUri: string,
   manifest: StreamManifest,
-  userAddress: string,
-  signer: Signer
+  manifestSigner: ManifestSigner
 ): Promise<StreamManifest> {
   try {
     // Create finalized manifest
-    const finalizedManifest: StreamManifest = {
+    const finalizedManifest = await manifestSigner.sign({
       ...manifest,
       endedAt: Date.now(),
       status: "ended",
-    };
-
-    // Create ACL for updating
-    const updateACL = createACL(
-      ACLType.WALLET_ADDRESS,
-      ChainId.MAINNET,
-      userAddress
-    );
+    });
 
-    // Update manifest in Grove
-    await updateJson(streamUri, finalizedManifest, signer, { acl: updateACL });
+    await publishManifest(finalizedManifest, streamUri);
 
     return finalizedManifest;
   } catch (error) {
@@ -205,145 +660,661 @@ export async function loadStreamManifest(
     // Resolve Grove URI to get URL
     const manifestUrl = resolveUri(streamUri);
 
-    // Fetch manifest
-    const response = await fetch(manifestUrl);
+    // Always revalidate: the browser sends If-None-Match / If-Modified-Since
+    // when the gateway gave validators, so an unchanged manifest is a 304
+    const response = await fetch(manifestUrl, { cache: "no-cache" });
 
     if (!response.ok) {
       throw new Error(`Failed to fetch stream manifest: ${response.status}`);
     }
 
-    return await response.json();
+    let data: unknown;
+    try {
+      data = await response.json();
+    } catch {
+      throw new ManifestValidationError(
+        "invalid_json",
+        "Stream manifest is not valid JSON"
+      );
+    }
+
+    // Validated, and older manifest versions upgraded to the current one
+    return parseStreamManifest(data);
   } catch (error) {
     console.error("Error loading stream manifest:", error);
+
+    // Keep validation failures typed so the player can explain them
+    if (error instanceof ManifestValidationError) {
+      throw error;
+    }
     throw new Error("Failed to load stream");
   }
 }
 
 /**
- * Class to manage stream recording and uploading
+ * Loads one archived page of a stream manifest from Grove
  */
-export class StreamRecorder {
-  private mediaRecorder: MediaRecorder | null = null;
-  private stream: MediaStream | null = null;
-  private chunks: Blob[] = [];
-  private chunkCounter: number = 0;
-  private streamUri: string | null = null;
-  private manifest: StreamManifest | null = null;
-  private userAddress: string;
-  private streamerAddress: string;
-  private signer: Signer;
-  private options: StreamRecorderOptions;
-  private isRecording: boolean = false;
-  private uploadQueue: Blob[] = [];
-  private isUploading: boolean = false;
-  private downloadMode: boolean = false;
-  private onChunkDownloadedCallback:
-    | ((index: number, blob: Blob) => void)
-    | null = null;
-
-  // Events
-  private onChunkUploadedCallback:
-    | ((index: number, total: number) => void)
-    | null = null;
-  private onErrorCallback: ((error: Error) => void) | null = null;
-
-  constructor(
-    userAddress: string,
-    streamerAddress: string,
-    signer: Signer,
-    options: StreamRecorderOptions = { chunkDuration: 30000 }
-  ) {
-    this.userAddress = userAddress;
-    this.streamerAddress = streamerAddress;
-    this.signer = signer;
-    this.options = options;
-  }
+export async function loadManifestPage(
+  page: ManifestPage
+): Promise<ManifestPageContents> {
+  const response = await fetch(resolveUri(page.uri));
 
-  public onChunkUploaded(
-    callback: (index: number, total: number) => void
-  ): void {
-    this.onChunkUploadedCallback = callback;
+  if (!response.ok) {
+    throw new Error(`Failed to fetch manifest page: ${response.status}`);
   }
 
-  public onError(callback: (error: Error) => void): void {
-    this.onErrorCallback = callback;
-  }
+  // Pages never change, and the digest in the manifest vouches for them
+  return parseManifestPage(await response.arrayBuffer(), page);
+}
 
-  /**
-   * Enables or disables download mode for debugging
-   * When enabled, chunks will be downloaded locally instead of uploaded to Grove
-   */
-  public setDownloadMode(enabled: boolean): void {
-    this.downloadMode = enabled;
-  }
+interface ChunkFetchOptions {
+  signal?: AbortSignal;
+  canRetry?: () => boolean; // E.g. false once the player has stopped
+  // Called for every download, before its integrity check
+  onDownloaded?: (bytes: number, elapsedMs: number) => void;
+}
 
-  /**
-   * Sets callback for when a chunk is ready for download
-   */
-  public onChunkDownloaded(
-    callback: (index: number, blob: Blob) => void
-  ): void {
-    this.onChunkDownloadedCallback = callback;
-  }
+/**
+ * Fetches a chunk and checks it against its digest, trying again when the
+ * download or the check fails, e.g. on a flaky gateway. Used by the player
+ * and by recording downloads, so both apply the same rules.
+ */
+async function fetchVerifiedChunk(
+  chunk: StreamChunk,
+  options: ChunkFetchOptions = {}
+): Promise<ArrayBuffer> {
+  const { signal } = options;
 
-  public async initializeStream(
-    title: string,
-    creator: string
-  ): Promise<string> {
+  for (let attempt = 1; ; attempt++) {
     try {
-      // Create initial manifest
-      this.manifest = createStreamManifest(title, creator);
+      const startedAt = performance.now();
+      const response = await fetch(resolveUri(chunk.uri), { signal });
 
-      // Upload manifest
-      this.streamUri = await initializeStream(this.manifest, this.userAddress);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch chunk: ${chunk.index}`);
+      }
 
-      return this.streamUri;
+      const data = await response.arrayBuffer();
+      options.onDownloaded?.(data.byteLength, performance.now() - startedAt);
+
+      // Never hand on bytes that differ from what the creator published
+      if (chunk.sha256 && (await computeSha256(data)) !== chunk.sha256) {
+        throw new Error(`Chunk ${chunk.index} failed its integrity check`);
+      }
+
+      return data;
     } catch (error) {
-      console.error("Error initializing stream:", error);
-      this.handleError(new Error("Failed to initialize stream"));
-      throw error;
+      if (
+        attempt >= CHUNK_FETCH_ATTEMPTS ||
+        signal?.aborted ||
+        options.canRetry?.() === false
+      ) {
+        throw error;
+      }
+
+      console.error(`Error fetching chunk ${chunk.index}, retrying:`, error);
+      await new Promise((resolve) =>
+        setTimeout(resolve, CHUNK_RETRY_DELAY * attempt)
+      );
+      signal?.throwIfAborted();
     }
   }
+}
 
-  private async startNewRecorderChunkLoop(): Promise<void> {
-    const chunkDuration = this.options.chunkDuration;
-
-    const loop = async () => {
-      if (!this.isRecording || !this.stream) return;
+/**
+ * Downloads every chunk of a stream and joins them into one WebM file with a
+ * duration and seek cues. onProgress is called with the number of chunks
+ * downloaded so far.
+ */
+export async function downloadStreamRecording(
+  streamUri: string,
+  options: {
+    onProgress?: (loaded: number, total: number) => void;
+    signal?: AbortSignal;
+  } = {}
+): Promise<Blob> {
+  const manifest = await loadStreamManifest(streamUri);
+  const pages = await Promise.all(
+    (manifest.pages ?? []).map((page) => loadManifestPage(page))
+  );
+  const chunks = [...mergeManifestPages(manifest, pages).chunks].sort(
+    (a, b) => a.index - b.index
+  );
+
+  if (chunks.length === 0) {
+    throw new Error("Stream has no recorded chunks");
+  }
 
-      const mimeType = this.mediaRecorder?.mimeType || "video/webm";
+  const prefetcher = new ChunkPrefetcher<StreamChunk>(
+    (chunk, signal) => fetchVerifiedChunk(chunk, { signal }),
+    { concurrency: RECORDING_DOWNLOAD_CONCURRENCY }
+  );
+  const remuxer = new WebmRemuxer();
+  const cancel = () => prefetcher.cancel();
+  options.signal?.addEventListener("abort", cancel);
 
-      // Create a new MediaRecorder
-      this.mediaRecorder = new MediaRecorder(this.stream, { mimeType });
+  try {
+    for (const [i, chunk] of chunks.entries()) {
+      options.signal?.throwIfAborted();
+      chunks
+        .slice(i + 1, i + 1 + RECORDING_DOWNLOAD_CONCURRENCY)
+        .forEach((next) => prefetcher.prefetch(next.index, next));
+
+      let data: ArrayBuffer | null = await prefetcher.take(chunk.index, chunk);
+
+      // A chunk missing from the manifest cuts the recording mid-Cluster
+      const previous = chunks[i - 1];
+      if (
+        previous &&
+        previous.index !== chunk.index - 1 &&
+        !hasInitSegment(data)
+      ) {
+        remuxer.skipGap();
+        data = trimToFirstCluster(data);
+      }
 
-      this.mediaRecorder.ondataavailable = this.handleDataAvailable.bind(this);
-      this.mediaRecorder.onerror = (event) => {
-        console.error("MediaRecorder error:", event);
-        this.handleError(new Error("MediaRecorder error"));
-      };
+      if (data) {
+        remuxer.push(data, chunk.durationMs);
+      }
+      options.onProgress?.(i + 1, chunks.length);
+    }
+  } finally {
+    prefetcher.cancel();
+    options.signal?.removeEventListener("abort", cancel);
+  }
 
-      return new Promise<void>((resolve) => {
-        this.mediaRecorder!.onstop = () => {
-          resolve();
-          if (this.isRecording) {
-            setTimeout(() => {
-              loop(); // Recursively start next chunk
-            }, 0);
-          }
-        };
+  return remuxer.finish(chunks[0].mimeType || "video/webm");
+}
 
-        // Start and stop after chunkDuration
-        this.mediaRecorder!.start();
-        setTimeout(() => {
-          if (this.mediaRecorder?.state === "recording") {
-            this.mediaRecorder.stop();
-          }
-        }, chunkDuration);
-      });
-    };
+/**
+ * Loads the archived pages of a manifest that hold chunks in an index range
+ * and merges them in
+ */
+async function loadChunkRange(
+  manifest: StreamManifest,
+  firstIndex: number,
+  lastIndex: number
+): Promise<StreamManifest> {
+  const pages = await Promise.all(
+    (manifest.pages ?? [])
+      .filter(
+        (page) => page.lastIndex >= firstIndex && page.firstIndex <= lastIndex
+      )
+      .map((page) => loadManifestPage(page))
+  );
+
+  return mergeManifestPages(manifest, pages);
+}
 
-    await loop();
-  }
+/**
+ * The chunks of a list within an index range, and the init segments they
+ * need (including the one the first chunk was recorded under)
+ */
+function sliceChunkList<T extends ChunkList>(
+  list: T,
+  firstIndex: number,
+  lastIndex: number
+): T {
+  const header = findInitSegment(list.initSegments, firstIndex);
+
+  return {
+    ...list,
+    chunks: list.chunks.filter(
+      (chunk) => chunk.index >= firstIndex && chunk.index <= lastIndex
+    ),
+    initSegments: list.initSegments?.filter(
+      (entry) =>
+        entry === header ||
+        (entry.firstIndex > firstIndex && entry.firstIndex <= lastIndex)
+    ),
+  };
+}
+
+/**
+ * Whether every chunk and init segment of a list appears, unchanged, in
+ * another
+ */
+function isChunkSubset(list: ChunkList, of: ChunkList): boolean {
+  const chunks = new Map(of.chunks.map((chunk) => [chunk.index, chunk]));
+  const initSegments = new Map(
+    (of.initSegments ?? []).map((entry) => [entry.uri, entry.sha256])
+  );
+
+  return (
+    list.chunks.every(
+      (chunk) =>
+        chunks.get(chunk.index)?.uri === chunk.uri &&
+        chunks.get(chunk.index)?.sha256 === chunk.sha256
+    ) &&
+    (list.initSegments ?? []).every(
+      (entry) => initSegments.get(entry.uri) === entry.sha256
+    )
+  );
+}
+
+/**
+ * Cuts a clip from an ended stream. startMs and endMs are positions on the
+ * stream's playback timeline; the clip manifest lists only the chunks that
+ * cover them and is stored on Grove as an immutable file. Returns its URI.
+ */
+export async function createStreamClip(
+  streamUri: string,
+  title: string,
+  startMs: number,
+  endMs: number
+): Promise<string> {
+  if (endMs <= startMs || endMs - startMs > MAX_CLIP_DURATION_MS) {
+    throw new Error(
+      `Clips must be between 0 and ${MAX_CLIP_DURATION_MS / 1000} seconds long`
+    );
+  }
+
+  const source = await loadStreamManifest(streamUri);
+  if (source.status !== "ended" || source.clip) {
+    throw new Error("Clips can only be cut from ended streams");
+  }
+
+  const merged = await loadChunkRange(source, 0, source.chunkCount);
+
+  // Clip playback places chunks by their durations and needs a header for
+  // whichever chunk it starts at
+  const clippable = merged.chunks.every(
+    (chunk) =>
+      chunk.durationMs !== null &&
+      findInitSegment(merged.initSegments, chunk.index)
+  );
+  if (!clippable) {
+    throw new Error("This stream was recorded before clips were supported");
+  }
+
+  let position = 0;
+  const covered = merged.chunks
+    .map((chunk) => {
+      const start = position;
+      position += chunk.durationMs ?? 0;
+      return { index: chunk.index, start, end: position };
+    })
+    .filter(({ start, end }) => end > startMs && start < endMs);
+
+  if (covered.length === 0) {
+    throw new Error("The clip is outside the recording");
+  }
+
+  const first = covered[0];
+  const last = covered[covered.length - 1];
+  const firstIndex = first.index;
+  const lastIndex = last.index;
+  const clip: StreamManifest = {
+    ...sliceChunkList(merged, firstIndex, lastIndex),
+    title,
+    chunkCount: covered.length,
+    signature: null,
+    renditions: merged.renditions?.map((rendition) =>
+      sliceChunkList(rendition, firstIndex, lastIndex)
+    ),
+    pages: undefined,
+    clip: {
+      sourceUri: streamUri,
+      startMs: Math.max(0, startMs - first.start),
+      endMs: Math.min(last.end, endMs) - first.start,
+    },
+  };
+
+  // Never publish a clip the player would reject
+  parseStreamManifest(JSON.parse(JSON.stringify(clip)));
+
+  const response = await uploadAsJson(clip, {
+    acl: createACL(ACLType.IMMUTABLE, ChainId.MAINNET),
+  });
+  return response.uri;
+}
+
+/**
+ * Checks a manifest's signature, or for a clip (which nobody signs) the
+ * stream it was cut from: the clip is trusted when that stream verifies and
+ * published every chunk the clip lists
+ */
+export async function verifyStreamManifest(
+  manifest: StreamManifest,
+  trustedSigners: string[]
+): Promise<ManifestVerification> {
+  if (!manifest.clip) {
+    return verifyManifestSignature(manifest, trustedSigners);
+  }
+
+  try {
+    const source = await loadStreamManifest(manifest.clip.sourceUri);
+    const verification = await verifyManifestSignature(source, trustedSigners);
+
+    if (verification.status !== "verified") {
+      return {
+        ...verification,
+        reason: `Clipped stream: ${verification.reason}`,
+      };
+    }
+
+    const indices = manifest.chunks.map((chunk) => chunk.index);
+    const merged = await loadChunkRange(
+      source,
+      Math.min(...indices),
+      Math.max(...indices)
+    );
+
+    const isPublished =
+      manifest.creator === source.creator &&
+      isChunkSubset(manifest, merged) &&
+      (manifest.renditions ?? []).every((rendition) => {
+        const published = merged.renditions?.find(
+          (entry) => entry.id === rendition.id
+        );
+        return !!published && isChunkSubset(rendition, published);
+      });
+
+    return isPublished
+      ? verification
+      : {
+          status: "unverified",
+          signer: null,
+          reason: "Clip holds media the stream never published",
+        };
+  } catch (error) {
+    console.error("Error verifying clip:", error);
+    return {
+      status: "unverified",
+      signer: null,
+      reason: "The stream this clip was cut from could not be loaded",
+    };
+  }
+}
+
+/**
+ * Stops a MediaRecorder and resolves once it has emitted its final chunk
+ */
+function stopMediaRecorder(recorder: MediaRecorder): Promise<void> {
+  if (recorder.state === "inactive") {
+    return Promise.resolve();
+  }
+
+  return new Promise<void>((resolve) => {
+    recorder.addEventListener("stop", () => resolve(), { once: true });
+    recorder.stop();
+  });
+}
+
+/**
+ * Class to manage stream recording and uploading
+ */
+export class StreamRecorder {
+  private mediaRecorder: MediaRecorder | null = null;
+  private renditionRecorders: RenditionRecorder[] = [];
+  private stream: MediaStream | null = null;
+  private chunks: Blob[] = [];
+  private chunkCounter: number = 0;
+  private streamUri: string | null = null;
+  private manifest: StreamManifest | null = null;
+  private streamerAddress: string;
+  private manifestSigner: ManifestSigner;
+  private options: StreamRecorderOptions;
+  private isRecording: boolean = false;
+  private uploadQueue: UploadQueue | null = null;
+  private uploadWorkers: Set<Promise<void>> = new Set();
+  private claimedChunks: Set<string> = new Set();
+  private manifestWriter: Promise<void> | null = null;
+  private isFlushing: boolean = false;
+  private retryWakers: Set<() => void> = new Set();
+  private downloadMode: boolean = false;
+  private lastChunkAt: number = 0;
+  private enqueueChain: Promise<void> = Promise.resolve();
+  private previews: StreamPreview[] = []; // Written with the next revision
+  private participants: StreamParticipant[] = []; // Likewise
+  private hasParticipantChanges: boolean = false;
+  private onChunkDownloadedCallback:
+    | ((index: number, blob: Blob) => void)
+    | null = null;
+
+  // Events
+  private onChunkUploadedCallback:
+    | ((index: number, total: number) => void)
+    | null = null;
+  private onChunkStatusCallback:
+    | ((update: ChunkStatusUpdate) => void)
+    | null = null;
+  private onErrorCallback: ((error: Error) => void) | null = null;
+
+  /**
+   * @param manifestSigner - Signs each manifest revision on behalf of the
+   * creator's wallet; the manifest route rejects unsigned revisions
+   */
+  constructor(
+    streamerAddress: string,
+    manifestSigner: ManifestSigner,
+    options: StreamRecorderOptions = { chunkDuration: 30000 }
+  ) {
+    this.streamerAddress = streamerAddress;
+    this.manifestSigner = manifestSigner;
+    this.options = options;
+  }
+
+  public onChunkUploaded(
+    callback: (index: number, total: number) => void
+  ): void {
+    this.onChunkUploadedCallback = callback;
+  }
+
+  /**
+   * Sets callback for every status change of a queued chunk
+   * (queued, uploading, retrying, uploaded, failed)
+   */
+  public onChunkStatus(callback: (update: ChunkStatusUpdate) => void): void {
+    this.onChunkStatusCallback = callback;
+  }
+
+  public onError(callback: (error: Error) => void): void {
+    this.onErrorCallback = callback;
+  }
+
+  /**
+   * Number of chunks recorded but not yet published to the manifest
+   */
+  public getPendingUploadCount(): number {
+    return this.uploadQueue?.size ?? 0;
+  }
+
+  /**
+   * Enables or disables download mode for debugging
+   * When enabled, chunks will be downloaded locally instead of uploaded to Grove
+   */
+  public setDownloadMode(enabled: boolean): void {
+    this.downloadMode = enabled;
+  }
+
+  /**
+   * Sets callback for when a chunk is ready for download
+   */
+  public onChunkDownloaded(
+    callback: (index: number, blob: Blob) => void
+  ): void {
+    this.onChunkDownloadedCallback = callback;
+  }
+
+  public async initializeStream(
+    title: string,
+    creator: string
+  ): Promise<string> {
+    try {
+      // Create initial manifest
+      this.manifest = createStreamManifest(
+        title,
+        creator,
+        this.options.kind,
+        this.options.hostUri
+      );
+
+      // One wallet prompt authorizes signing for the whole stream
+      if (!this.manifestSigner.getSigningKey()) {
+        await this.manifestSigner.authorize(this.manifest);
+      }
+
+      // Upload manifest
+      this.streamUri = await initializeStream(
+        this.manifest,
+        this.manifestSigner
+      );
+      this.chunkCounter = 0;
+      this.previews = [];
+      this.participants = [];
+      this.uploadQueue = new UploadQueue(this.streamUri);
+      this.persistSession();
+
+      return this.streamUri;
+    } catch (error) {
+      console.error("Error initializing stream:", error);
+      this.handleError(new Error("Failed to initialize stream"));
+      throw error;
+    }
+  }
+
+  /**
+   * Picks up a stream that is still live, e.g. after a tab reload or crash.
+   * Chunk numbering continues from the manifest's chunkCount and new chunks
+   * are appended to the same Grove manifest.
+   */
+  public async resumeStream(streamUri: string): Promise<StreamManifest> {
+    try {
+      const manifest = await loadStreamManifest(streamUri);
+
+      if (manifest.status !== "live") {
+        throw new Error("Stream has already ended");
+      }
+
+      this.streamUri = streamUri;
+      this.manifest = manifest;
+      this.previews = manifest.previews ?? [];
+      this.participants = manifest.participants ?? [];
+      this.options.kind = manifest.kind ?? "video";
+
+      // Keep recording the renditions the stream started with so their
+      // chunk lists stay comparable
+      if (manifest.renditions?.length) {
+        this.options.renditions = manifest.renditions
+          .filter((rendition) => rendition.height && rendition.videoBitsPerSecond)
+          .map((rendition) => ({
+            id: rendition.id,
+            height: rendition.height as number,
+            videoBitsPerSecond: rendition.videoBitsPerSecond as number,
+          }));
+      }
+
+      // The signing key is never saved, so a resumed stream gets a new one
+      if (!this.manifestSigner.getSigningKey()) {
+        await this.manifestSigner.authorize(manifest);
+      }
+
+      // Chunks recorded before the interruption but never published
+      this.uploadQueue = new UploadQueue(streamUri);
+      const leftover = await this.uploadQueue.restore();
+
+      this.chunkCounter = Math.max(
+        manifest.chunkCount,
+        this.uploadQueue.getHighestIndex() + 1
+      );
+      this.persistSession();
+
+      if (leftover.length > 0) {
+        leftover.forEach((chunk) => this.emitChunkStatus(chunk, "queued"));
+        this.processUploadQueue();
+        this.writeManifest();
+      }
+
+      return manifest;
+    } catch (error) {
+      console.error("Error resuming stream:", error);
+      this.handleError(new Error("Failed to resume stream"));
+      throw error;
+    }
+  }
+
+  /**
+   * Marks the stream as ended without recording anything further
+   */
+  public async finalizeStream(): Promise<void> {
+    if (!this.streamUri || !this.manifest) {
+      return;
+    }
+
+    // Update manifest to indicate stream has ended
+    this.manifest = await endStream(
+      this.streamUri,
+      this.withRecorderState(this.manifest),
+      this.manifestSigner
+    );
+    clearStreamSession(this.streamerAddress);
+  }
+
+  public getStreamUri(): string | null {
+    return this.streamUri;
+  }
+
+  /**
+   * Co-hosts listed in the manifest, including removed ones
+   */
+  public getParticipants(): StreamParticipant[] {
+    return [...this.participants];
+  }
+
+  /**
+   * Lists a co-host's seat (see participants.ts) in the manifest. The next
+   * revision carries it, written straight away if no chunk is waiting.
+   */
+  public addParticipant(participant: StreamParticipant): void {
+    this.assertLive();
+
+    this.participants = [...this.participants, participant];
+    this.hasParticipantChanges = true;
+    this.writeManifest();
+  }
+
+  /**
+   * Removes a co-host mid-stream. The seat stays listed with removedAt, so
+   * replays can still play what they recorded.
+   */
+  public removeParticipant(seatUri: string): void {
+    this.assertLive();
+
+    const removedAt = Date.now();
+    this.participants = this.participants.map((participant) =>
+      participant.seatUri === seatUri && participant.removedAt === null
+        ? { ...participant, removedAt }
+        : participant
+    );
+    this.hasParticipantChanges = true;
+    this.writeManifest();
+  }
+
+  private assertLive(): void {
+    if (!this.streamUri || this.manifest?.status !== "live") {
+      throw new Error("Co-hosts can only be changed while the stream is live");
+    }
+  }
+
+  /**
+   * Saves the recorder state locally so the stream can be resumed
+   */
+  private persistSession(): void {
+    if (!this.streamUri || !this.manifest) {
+      return;
+    }
+
+    saveStreamSession(this.streamerAddress, {
+      streamUri: this.streamUri,
+      title: this.manifest.title,
+      creator: this.manifest.creator,
+      chunkCount: this.manifest.chunkCount,
+      chunkDuration: this.options.chunkDuration,
+      kind: this.manifest.kind ?? "video",
+      updatedAt: Date.now(),
+    });
+  }
 
   public async startRecording(mediaStream: MediaStream): Promise<void> {
     if (this.isRecording) {
@@ -361,9 +1332,7 @@ export class StreamRecorder {
       // Determine mime type
       const mimeTypes = [
         this.options.mimeType, // Try user-provided mime type first
-        "video/webm;codecs=vp9,opus",
-        "video/webm;codecs=vp8,opus",
-        "video/webm",
+        ...STREAM_MIME_TYPES[this.options.kind ?? "video"],
       ].filter(Boolean) as string[];
 
       let selectedMimeType = null;
@@ -383,7 +1352,13 @@ export class StreamRecorder {
       // Create media recorder
       this.mediaRecorder = new MediaRecorder(mediaStream, {
         mimeType: selectedMimeType,
-      });
+        videoBitsPerSecond: this.options.videoBitsPerSecond,
+        videoKeyFrameIntervalDuration: KEYFRAME_INTERVAL_MS,
+      } as RecorderOptions);
+
+      // Tell viewers the codec up front; written with the next manifest update
+      this.manifest.codec = this.mediaRecorder.mimeType || selectedMimeType;
+      this.lastChunkAt = Date.now();
 
       // Handle data available
       this.mediaRecorder.ondataavailable = this.handleDataAvailable.bind(this);
@@ -394,10 +1369,15 @@ export class StreamRecorder {
         this.handleError(new Error("MediaRecorder error"));
       };
 
+      // Renditions start right after the source so their chunks line up
+      this.setupRenditions(mediaStream, selectedMimeType);
+
+      // One continuous recording per session: the first chunk carries the
+      // WebM header, which is also stored as the session's init segment
       this.mediaRecorder.start(this.options.chunkDuration);
-      
-      // Start recording with specified chunk interval
-      // this.startNewRecorderChunkLoop();
+      this.renditionRecorders.forEach(({ mediaRecorder }) =>
+        mediaRecorder.start(this.options.chunkDuration)
+      );
 
       console.log("Recording started with mime type:", selectedMimeType);
     } catch (error) {
@@ -414,35 +1394,45 @@ export class StreamRecorder {
     }
 
     try {
-      // Stop media recorder
-      if (this.mediaRecorder && this.mediaRecorder.state !== "inactive") {
-        this.mediaRecorder.stop();
-      }
+      // Stop media recorders and wait for their final chunks
+      await Promise.all([
+        this.mediaRecorder && stopMediaRecorder(this.mediaRecorder),
+        ...this.renditionRecorders.map(({ mediaRecorder }) =>
+          stopMediaRecorder(mediaRecorder)
+        ),
+      ]);
+      this.renditionRecorders.forEach(({ downscaled }) => downscaled.stop());
+      this.renditionRecorders = [];
 
       // Stop media tracks
       if (this.stream) {
         this.stream.getTracks().forEach((track) => track.stop());
       }
 
-      // Wait for any pending uploads to complete
+      this.isRecording = false;
+
+      // Retry anything still queued now rather than after the next backoff
       await this.waitForUploads();
 
-      // Finalize stream if initialized
-      if (this.streamUri && this.manifest) {
-        // Update manifest to indicate stream has ended
-        this.manifest = await endStream(
-          this.streamUri,
-          this.manifest,
-          this.userAddress,
-          this.signer
+      const remaining = this.getPendingUploadCount();
+      if (remaining > 0) {
+        // Leave the stream live so it can be resumed and the chunks retried
+        throw new Error(
+          `${remaining} chunk${
+            remaining === 1 ? "" : "s"
+          } could not be uploaded. Resume the stream to retry.`
         );
       }
 
-      this.isRecording = false;
+      // Finalize stream if initialized
+      await this.finalizeStream();
+
       console.log("Recording stopped and stream finalized");
     } catch (error) {
       console.error("Error stopping recording:", error);
-      this.handleError(new Error("Failed to stop recording"));
+      this.handleError(
+        error instanceof Error ? error : new Error("Failed to stop recording")
+      );
       throw error;
     }
   }
@@ -462,114 +1452,532 @@ export class StreamRecorder {
           // Default download behavior if no callback
           this.downloadChunk(event.data, chunkIndex);
         }
-      } else {
+      } else if (this.uploadQueue) {
         // Normal upload behavior
-        // Queue for upload
-        this.uploadQueue.push(event.data);
+        // Index is assigned at record time so chunks keep their order
+        const chunkIndex = this.chunkCounter++;
+        const recordedAt = Date.now();
+        const durationMs = recordedAt - this.lastChunkAt;
+        this.lastChunkAt = recordedAt;
+
+        // Chained so chunks enter the queue in index order even though
+        // hashing each one takes a different amount of time
+        this.enqueueChain = this.enqueueChain.then(() =>
+          this.enqueueChunk(chunkIndex, event.data, recordedAt, durationMs, null)
+        );
 
-        // Start upload process if not already running
-        if (!this.isUploading) {
-          this.processUploadQueue();
+        const interval =
+          this.options.thumbnailInterval ?? DEFAULT_THUMBNAIL_INTERVAL;
+        if (
+          this.options.kind !== "audio" &&
+          interval > 0 &&
+          chunkIndex % interval === 0
+        ) {
+          this.captureThumbnail(chunkIndex);
         }
       }
     }
   }
 
   /**
-   * Downloads a chunk to the user's device
+   * Captures the current camera frame and uploads it as the stream's latest
+   * preview. Best effort: a stream without previews still plays.
    */
-  private downloadChunk(chunk: Blob, index: number): void {
-    try {
-      // Create a download link
-      const url = URL.createObjectURL(chunk);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `chunk-${index}-${Date.now()}.webm`;
-
-      // Trigger download
-      document.body.appendChild(a);
-      a.click();
-
-      // Clean up
-      setTimeout(() => {
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-      }, 100);
+  private async captureThumbnail(index: number): Promise<void> {
+    if (!this.stream) {
+      return;
+    }
 
-      // Trigger callback
-      if (this.onChunkUploadedCallback) {
-        this.onChunkUploadedCallback(index, this.chunks.length);
-      }
+    try {
+      const uri = await uploadThumbnail(await captureFrame(this.stream), index);
+      this.previews = [
+        ...this.previews,
+        { uri, index, capturedAt: Date.now() },
+      ].slice(-MAX_PREVIEWS);
     } catch (error) {
-      console.error("Error downloading chunk:", error);
-      this.handleError(new Error("Failed to download chunk"));
+      console.error(`Error capturing thumbnail at chunk ${index}:`, error);
     }
   }
 
-  private async processUploadQueue(): Promise<void> {
-    if (this.isUploading || this.uploadQueue.length === 0) {
+  /**
+   * The manifest with the preview frames captured and co-host changes made
+   * so far
+   */
+  private withRecorderState(manifest: StreamManifest): StreamManifest {
+    return {
+      ...manifest,
+      ...(this.previews.length > 0
+        ? {
+            thumbnailUri: this.previews[this.previews.length - 1].uri,
+            previews: this.previews,
+          }
+        : {}),
+      ...(this.participants.length > 0
+        ? { participants: this.participants }
+        : {}),
+    };
+  }
+
+  /**
+   * Starts a downscaled recorder per configured rendition. A rendition that
+   * cannot be set up is skipped; the source rendition keeps recording.
+   */
+  private setupRenditions(mediaStream: MediaStream, mimeType: string): void {
+    if (!this.manifest || this.downloadMode || this.options.kind === "audio") {
+      return;
+    }
+
+    for (const config of this.options.renditions ?? []) {
+      try {
+        const downscaled = createDownscaledStream(mediaStream, config.height);
+        const rendition: RenditionRecorder = {
+          config,
+          mediaRecorder: new MediaRecorder(downscaled.stream, {
+            mimeType,
+            videoBitsPerSecond: config.videoBitsPerSecond,
+            videoKeyFrameIntervalDuration: KEYFRAME_INTERVAL_MS,
+          } as RecorderOptions),
+          downscaled,
+          // Indices follow the source so the player can switch between them
+          chunkCounter: this.chunkCounter,
+          lastChunkAt: Date.now(),
+        };
+
+        rendition.mediaRecorder.ondataavailable = (event) =>
+          this.handleRenditionData(rendition, event);
+        rendition.mediaRecorder.onerror = (event) => {
+          console.error(`MediaRecorder error in rendition ${config.id}:`, event);
+          this.handleError(new Error(`Rendition ${config.id} failed`));
+        };
+
+        this.renditionRecorders.push(rendition);
+        this.upsertRendition({
+          id: config.id,
+          width: downscaled.width,
+          height: downscaled.height,
+          videoBitsPerSecond: config.videoBitsPerSecond,
+          codec: rendition.mediaRecorder.mimeType || mimeType,
+        });
+      } catch (error) {
+        console.error(`Error setting up rendition ${config.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Adds a rendition to the manifest or refreshes its details, keeping the
+   * chunks a resumed stream already published
+   */
+  private upsertRendition(details: Omit<StreamRendition, "chunks">): void {
+    if (!this.manifest) {
+      return;
+    }
+
+    const renditions = this.manifest.renditions ?? [];
+    const existing = renditions.find((rendition) => rendition.id === details.id);
+
+    this.manifest.renditions = existing
+      ? renditions.map((rendition) =>
+          rendition === existing ? { ...rendition, ...details } : rendition
+        )
+      : [...renditions, { ...details, chunks: [] }];
+  }
+
+  private handleRenditionData(
+    rendition: RenditionRecorder,
+    event: BlobEvent
+  ): void {
+    if (!event.data || event.data.size === 0 || !this.uploadQueue) {
+      return;
+    }
+
+    const chunkIndex = rendition.chunkCounter++;
+    const recordedAt = Date.now();
+    const durationMs = recordedAt - rendition.lastChunkAt;
+    rendition.lastChunkAt = recordedAt;
+
+    this.enqueueChain = this.enqueueChain.then(() =>
+      this.enqueueChunk(
+        chunkIndex,
+        event.data,
+        recordedAt,
+        durationMs,
+        rendition.config.id
+      )
+    );
+  }
+
+  /**
+   * Hashes a recorded chunk and adds it to the persistent upload queue
+   */
+  private async enqueueChunk(
+    index: number,
+    blob: Blob,
+    timestamp: number,
+    durationMs: number,
+    rendition: string | null
+  ): Promise<void> {
+    if (!this.uploadQueue) {
       return;
     }
 
-    this.isUploading = true;
-
     try {
-      // Get next chunk from queue
-      const chunk = this.uploadQueue.shift();
+      const chunk = await this.uploadQueue.add(
+        index,
+        blob,
+        {
+          timestamp,
+          durationMs,
+          sha256: await computeSha256(blob),
+          mimeType: blob.type || this.manifest?.codec || null,
+        },
+        rendition
+      );
+      this.emitChunkStatus(chunk, "queued");
 
-      if (!chunk) {
-        this.isUploading = false;
-        return;
+      // Start upload process if not already running
+      this.processUploadQueue();
+    } catch (error) {
+      console.error(`Error queueing chunk ${index}:`, error);
+      this.handleError(new Error(`Failed to queue chunk ${index}`));
+    }
+  }
+
+  /**
+   * Downloads a chunk to the user's device
+   */
+  private downloadChunk(chunk: Blob, index: number): void {
+    try {
+      // Create a download link
+      const url = URL.createObjectURL(chunk);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `chunk-${index}-${Date.now()}.webm`;
+
+      // Trigger download
+      document.body.appendChild(a);
+      a.click();
+
+      // Clean up
+      setTimeout(() => {
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+      }, 100);
+
+      // Trigger callback
+      if (this.onChunkUploadedCallback) {
+        this.onChunkUploadedCallback(index, this.chunks.length);
       }
+    } catch (error) {
+      console.error("Error downloading chunk:", error);
+      this.handleError(new Error("Failed to download chunk"));
+    }
+  }
 
-      // Upload chunk
-      const chunkIndex = this.chunkCounter++;
-      const chunkUri = await uploadStreamChunk(chunk, chunkIndex);
+  /**
+   * Starts upload workers for queued chunks, up to uploadConcurrency at once
+   */
+  private processUploadQueue(): void {
+    const concurrency = Math.max(1, this.options.uploadConcurrency ?? 3);
 
-      // Update manifest
-      if (this.streamUri && this.manifest) {
-        this.manifest = await updateStreamManifest(
-          this.streamUri,
-          this.manifest,
-          chunkUri,
-          chunkIndex,
-          this.userAddress,
-          this.signer
-        );
+    while (
+      this.uploadWorkers.size < concurrency &&
+      this.getNextChunkToUpload()
+    ) {
+      const worker: Promise<void> = this.runUploadWorker().finally(() => {
+        this.uploadWorkers.delete(worker);
+      });
+      this.uploadWorkers.add(worker);
+    }
+  }
 
-        // Trigger callback
-        if (this.onChunkUploadedCallback) {
-          this.onChunkUploadedCallback(chunkIndex, this.chunks.length);
+  /**
+   * Lowest-index chunk that still needs uploading and no worker has claimed
+   */
+  private getNextChunkToUpload(): QueuedChunk | undefined {
+    return this.uploadQueue
+      ?.getItems()
+      .find(
+        (chunk) => !chunk.chunkUri && !this.claimedChunks.has(chunk.id)
+      );
+  }
+
+  /**
+   * Uploads chunks one at a time until none are left to claim. A failing
+   * chunk is retried with exponential backoff; while stopping, the worker
+   * gives up on it after maxFlushAttempts consecutive failures.
+   */
+  private async runUploadWorker(): Promise<void> {
+    let chunk = this.getNextChunkToUpload();
+
+    while (chunk) {
+      this.claimedChunks.add(chunk.id);
+
+      try {
+        let flushFailures = 0;
+
+        while (!(await this.uploadChunk(chunk))) {
+          if (this.isFlushing) {
+            flushFailures++;
+            if (flushFailures >= (this.options.maxFlushAttempts ?? 5)) {
+              return;
+            }
+            await this.waitForRetry(1);
+          } else {
+            await this.waitForRetry(chunk.attempts);
+          }
         }
+      } finally {
+        this.claimedChunks.delete(chunk.id);
+      }
+
+      // Publish whatever is ready now that this chunk is on Grove
+      this.writeManifest();
+
+      chunk = this.getNextChunkToUpload();
+    }
+  }
+
+  /**
+   * Uploads a chunk's data to Grove, returning whether it succeeded
+   */
+  private async uploadChunk(chunk: QueuedChunk): Promise<boolean> {
+    if (!this.uploadQueue) {
+      return false;
+    }
+
+    chunk.attempts++;
+    this.emitChunkStatus(chunk, chunk.attempts > 1 ? "retrying" : "uploading");
+
+    try {
+      // Kept across retries so the header is only stored once
+      if (!chunk.initSegment) {
+        chunk.initSegment = await uploadInitSegment(
+          chunk.blob,
+          chunk.index,
+          chunk.rendition
+        );
       }
+
+      chunk.chunkUri = await uploadStreamChunk(
+        chunk.blob,
+        chunk.index,
+        chunk.rendition
+      );
+      await this.uploadQueue.save(chunk);
+      this.emitChunkStatus(chunk, "uploaded");
+      return true;
     } catch (error) {
-      console.error("Error processing upload queue:", error);
-      // Continue processing queue even on error
+      console.error(`Error uploading chunk ${chunk.index}:`, error);
+      this.emitChunkStatus(chunk, "failed", error as Error);
+      await this.uploadQueue.save(chunk);
+      return false;
+    }
+  }
+
+  /**
+   * Starts the manifest writer if there is work and it is not running, and
+   * resolves when it stops
+   */
+  private writeManifest(): Promise<void> {
+    if (!this.manifestWriter && this.hasManifestWork()) {
+      this.manifestWriter = this.runManifestWriter();
+    }
+
+    return this.manifestWriter ?? Promise.resolve();
+  }
+
+  /**
+   * Merges uploaded chunks into the manifest, one updateJson call per batch.
+   * Only the run of uploaded chunks at the head of the queue is published, so
+   * viewers never see a later chunk before an earlier one.
+   */
+  private async runManifestWriter(): Promise<void> {
+    let failures = 0;
+
+    try {
+      do {
+        if (await this.publishChunks(this.getChunksReadyToPublish())) {
+          failures = 0;
+        } else {
+          failures++;
+
+          if (this.isFlushing) {
+            if (failures >= (this.options.maxFlushAttempts ?? 5)) {
+              return;
+            }
+            await this.waitForRetry(1);
+          } else {
+            await this.waitForRetry(failures);
+          }
+        }
+      } while (this.hasManifestWork());
     } finally {
-      this.isUploading = false;
+      // Cleared in the same tick as the last check for work, so a call to
+      // writeManifest from here on starts a new writer
+      this.manifestWriter = null;
+    }
+  }
 
-      // Process next item if queue is not empty
-      if (this.uploadQueue.length > 0) {
-        this.processUploadQueue();
+  /**
+   * Whether uploaded chunks or co-host changes are waiting to be published
+   */
+  private hasManifestWork(): boolean {
+    return (
+      this.getChunksReadyToPublish().length > 0 || this.hasParticipantChanges
+    );
+  }
+
+  private getChunksReadyToPublish(): QueuedChunk[] {
+    const ready: QueuedChunk[] = [];
+
+    for (const chunk of this.uploadQueue?.getItems() ?? []) {
+      if (!chunk.chunkUri) break;
+      ready.push(chunk);
+    }
+
+    return ready;
+  }
+
+  /**
+   * Adds uploaded chunks to the manifest, returning whether it succeeded
+   */
+  private async publishChunks(ready: QueuedChunk[]): Promise<boolean> {
+    if (!this.streamUri || !this.manifest || !this.uploadQueue) {
+      return false;
+    }
+
+    // Co-host changes made while this revision is written go into the next
+    const hadParticipantChanges = this.hasParticipantChanges;
+    this.hasParticipantChanges = false;
+
+    try {
+      const sourceUpdate: Required<ChunkListUpdate> = {
+        chunks: [],
+        initSegments: [],
+      };
+      const renditionUpdates: Record<string, Required<ChunkListUpdate>> = {};
+
+      for (const chunk of ready) {
+        const published: StreamChunk = {
+          uri: chunk.chunkUri as string,
+          timestamp: chunk.timestamp,
+          index: chunk.index,
+          durationMs: chunk.durationMs,
+          byteSize: chunk.blob.size,
+          sha256: chunk.sha256,
+          mimeType: chunk.mimeType,
+        };
+
+        const update = chunk.rendition
+          ? (renditionUpdates[chunk.rendition] ??= {
+              chunks: [],
+              initSegments: [],
+            })
+          : sourceUpdate;
+
+        update.chunks.push(published);
+        if (chunk.initSegment) {
+          update.initSegments.push(chunk.initSegment);
+        }
+      }
+
+      // Update manifest; chunks restored after a crash may already be in it
+      this.manifest = await updateStreamManifest(
+        this.streamUri,
+        this.withRecorderState(this.manifest),
+        sourceUpdate,
+        this.manifestSigner,
+        renditionUpdates
+      );
+      this.persistSession();
+
+      for (const chunk of ready) {
+        await this.uploadQueue.remove(chunk);
+        this.emitChunkStatus(chunk, "published");
+
+        // Trigger callback
+        if (this.onChunkUploadedCallback && !chunk.rendition) {
+          this.onChunkUploadedCallback(chunk.index, this.chunks.length);
+        }
       }
+
+      return true;
+    } catch (error) {
+      console.error("Error publishing chunks to manifest:", error);
+      this.hasParticipantChanges ||= hadParticipantChanges;
+      ready.forEach((chunk) =>
+        this.emitChunkStatus(chunk, "failed", error as Error)
+      );
+      return false;
     }
   }
 
-  private async waitForUploads(): Promise<void> {
-    // Wait for all uploads to complete
+  /**
+   * Sleeps before the next retry; stopping the recorder cuts the wait short
+   */
+  private waitForRetry(attempts: number): Promise<void> {
+    const baseDelay = this.options.retryBaseDelay ?? 1000;
+    const maxDelay = this.options.retryMaxDelay ?? 30000;
+    const delay = Math.min(baseDelay * 2 ** (attempts - 1), maxDelay);
+
+    // Jitter keeps retries from lining up with other clients
+    const jitteredDelay = delay / 2 + Math.random() * (delay / 2);
+
     return new Promise<void>((resolve) => {
-      const checkUploads = () => {
-        if (this.uploadQueue.length === 0 && !this.isUploading) {
-          resolve();
-        } else {
-          setTimeout(checkUploads, 100);
-        }
+      const wake = () => {
+        clearTimeout(timeout);
+        this.retryWakers.delete(wake);
+        resolve();
       };
+      const timeout = setTimeout(wake, jitteredDelay);
 
-      checkUploads();
+      this.retryWakers.add(wake);
     });
   }
 
+  private emitChunkStatus(
+    chunk: QueuedChunk,
+    status: ChunkUploadStatus,
+    error?: Error
+  ): void {
+    chunk.status = status;
+
+    if (this.onChunkStatusCallback) {
+      this.onChunkStatusCallback({
+        index: chunk.index,
+        rendition: chunk.rendition,
+        status,
+        attempts: chunk.attempts,
+        error,
+      });
+    }
+  }
+
+  /**
+   * Drains the upload queue, retrying failed chunks at the base delay
+   */
+  private async waitForUploads(): Promise<void> {
+    this.isFlushing = true;
+
+    try {
+      // Make sure the final chunk has made it into the queue
+      await this.enqueueChain;
+
+      // Retry anything sleeping in backoff right away
+      this.retryWakers.forEach((wake) => wake());
+      this.processUploadQueue();
+      this.writeManifest();
+
+      // Wait for all uploads and manifest writes to complete
+      while (this.uploadWorkers.size > 0 || this.manifestWriter) {
+        await Promise.all([...this.uploadWorkers, this.manifestWriter]);
+      }
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
   private handleError(error: Error): void {
     if (this.onErrorCallback) {
       this.onErrorCallback(error);
@@ -577,6 +1985,85 @@ export class StreamRecorder {
   }
 }
 
+function normalizeCodec(codec: string): string {
+  return codec.toLowerCase().replace(/\s+/g, "");
+}
+
+/**
+ * Average bitrate (bits/s) of a rendition's most recent chunks, falling back
+ * to the bitrate it was recorded with
+ */
+function estimateBitrate(rendition: PlayableRendition): number {
+  const samples = rendition.chunks
+    .filter((chunk) => chunk.byteSize !== null && chunk.durationMs)
+    .slice(-BITRATE_SAMPLE_CHUNKS);
+
+  const bytes = samples.reduce((total, chunk) => total + (chunk.byteSize ?? 0), 0);
+  const durationMs = samples.reduce(
+    (total, chunk) => total + (chunk.durationMs ?? 0),
+    0
+  );
+
+  if (durationMs > 0) {
+    return (bytes * 8 * 1000) / durationMs;
+  }
+  return rendition.videoBitsPerSecond ?? Number.POSITIVE_INFINITY;
+}
+
+/**
+ * Finds the chunk that started the recording session a chunk belongs to;
+ * only that chunk carries the WebM header. Within a session each chunk
+ * starts when the previous one ended, so a resume shows up as a gap.
+ */
+function findSessionStart(
+  chunks: StreamChunk[],
+  index: number
+): StreamChunk | null {
+  let position = chunks.findIndex((chunk) => chunk.index === index);
+  if (position === -1) {
+    return null;
+  }
+
+  while (position > 0) {
+    const chunk = chunks[position];
+    if (chunk.durationMs === null) {
+      return null;
+    }
+
+    const startedAt = chunk.timestamp - chunk.durationMs;
+    if (startedAt - chunks[position - 1].timestamp > SESSION_GAP_MS) {
+      break;
+    }
+    position--;
+  }
+
+  return chunks[position];
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+/**
+ * Whether a revision invited or removed a co-host
+ */
+function hasParticipantChanges(
+  previous: StreamManifest | null,
+  next: StreamManifest
+): boolean {
+  const before = previous?.participants ?? [];
+  const after = next.participants ?? [];
+
+  return (
+    before.length !== after.length ||
+    after.some(
+      (participant, i) =>
+        participant.seatUri !== before[i].seatUri ||
+        participant.removedAt !== before[i].removedAt
+    )
+  );
+}
+
 /**
  * Class to manage stream playback
  */
@@ -585,13 +2072,50 @@ export class StreamPlayer {
   private streamUri: string;
   private options: StreamPlayerOptions;
   private mediaSource: MediaSource | null = null;
-  private sourceBuffer: SourceBuffer | null = null;
+  private mediaSourceUrl: string | null = null;
+  private bufferManager: SourceBufferManager | null = null;
   private manifest: StreamManifest | null = null;
+  private mergedManifest: StreamManifest | null = null; // With loaded pages merged in
+  private pages: Map<string, ManifestPageContents> = new Map(); // By page URI
   private isPlaying: boolean = false;
-  private pollingInterval: number | null = null;
+  private isPolling: boolean = false;
+  private pollTimeout: number | null = null;
+  private lastChunkRecordedAt: number = 0; // Newest chunk's end, on this clock
+  private missedPolls: number = 0; // Polls since the next chunk was due
   private lastProcessedChunkIndex: number = -1;
-  private pendingChunks: ArrayBuffer[] = [];
-  private isBufferUpdating: boolean = false;
+  private chunkLoader: Promise<void> | null = null; // The running loading loop
+  private prefetcher: ChunkPrefetcher<{
+    rendition: string;
+    chunk: StreamChunk;
+  }>;
+  private stallTimer: number | null = null;
+  private stalledSince: number | null = null;
+  private lastPlayheadPosition: number = 0;
+  private isRecovering: boolean = false;
+  private recoveryAttempts: number = 0;
+  private recoveredAt: number = 0; // Playhead position right after the last rebuild
+  private verificationRun: number = 0;
+  private currentRendition: string | null = null;
+  private lastAppendedChunk: StreamChunk | null = null;
+  private seekToLiveOnStart: boolean = false;
+  private followsLive: boolean = true; // Cleared while the viewer watches back through the DVR window
+  private isCatchingUp: boolean = false; // Whether low-latency mode set playbackRate
+  private currentHeader: string | null = null; // HeaderSource key of the last append
+  private initSegments: Map<string, ArrayBuffer> = new Map(); // By HeaderSource key
+  private throughput: number | null = null; // Smoothed download speed (bits/s)
+  private vodTimeline: VodSegment[] | null = null; // Set when playing an ended stream
+  private vodTimestampOffset: number | null = null;
+  private vodAttempted: Set<number> = new Set(); // Chunk indices since the last seek
+  private state: StreamPlayerState = {
+    status: "idle",
+    isLive: false,
+    manifest: null,
+    verification: null,
+    rendition: null,
+    secondsBehindLive: null,
+    isBehindLive: false,
+    error: null,
+  };
 
   // Events
   private onManifestLoadedCallback:
@@ -599,26 +2123,30 @@ export class StreamPlayer {
     | null = null;
   private onStreamEndedCallback: (() => void) | null = null;
   private onErrorCallback: ((error: Error) => void) | null = null;
+  private onStateChangeCallback: ((state: StreamPlayerState) => void) | null =
+    null;
 
   constructor(
     videoElement: HTMLVideoElement,
     streamUri: string,
-    options: StreamPlayerOptions = {
-      autoPlay: true,
-      muted: true,
-      controls: true,
-      pollingInterval: 2000,
-    }
+    options: StreamPlayerOptions = {}
   ) {
     this.videoElement = videoElement;
     this.streamUri = streamUri;
-    this.options = options;
+    this.options = { ...DEFAULT_PLAYER_OPTIONS, ...options };
+    this.prefetcher = new ChunkPrefetcher(
+      (target, signal) => this.fetchChunk(target.chunk, signal),
+      { concurrency: Math.max(1, this.options.prefetchChunks ?? 0) }
+    );
 
     // Set video element properties
-    this.videoElement.muted = options.muted ?? true;
-    this.videoElement.controls = options.controls ?? true;
+    this.videoElement.muted = this.options.muted ?? true;
+    this.videoElement.controls = this.options.controls ?? true;
   }
 
+  /**
+   * Called with every new revision of the manifest, starting with the initial load
+   */
   public onManifestLoaded(callback: (manifest: StreamManifest) => void): void {
     this.onManifestLoadedCallback = callback;
   }
@@ -631,27 +2159,83 @@ export class StreamPlayer {
     this.onErrorCallback = callback;
   }
 
+  public onStateChange(callback: (state: StreamPlayerState) => void): void {
+    this.onStateChangeCallback = callback;
+  }
+
   public async initialize(): Promise<void> {
     try {
+      this.setState({ status: "loading", error: null });
+      this.attachVideoListeners();
+
       // Load initial manifest
-      this.manifest = await loadStreamManifest(this.streamUri);
+      this.handleManifest(await loadStreamManifest(this.streamUri));
 
-      // Trigger callback
-      if (this.onManifestLoadedCallback) {
-        this.onManifestLoadedCallback(this.manifest);
+      if (this.manifest?.status === "live" && this.options.startAtLiveEdge) {
+        this.skipToLiveEdge();
+      }
+
+      if (this.manifest?.status === "ended") {
+        // The timeline needs every chunk's duration
+        await this.loadAllPages();
+        this.vodTimeline = this.buildVodTimeline();
       }
 
       // Setup media source
       await this.setupMediaSource();
 
-      // Start polling for manifest updates
-      this.startPolling();
+      if (this.vodTimeline) {
+        // Ended stream: show the whole timeline, load around the playhead
+        this.startVod(
+          (this.getClipRange()?.start ?? 0) + (this.options.startTime ?? 0)
+        );
+      } else {
+        // Load every chunk published so far
+        await this.loadNewChunks();
+      }
+
+      // Joining a live stream: play from the live edge, DVR window behind it
+      if (this.seekToLiveOnStart) {
+        await this.bufferManager?.waitForIdle();
+        this.seekToLiveEdge();
+      }
+
+      // Start video playback if autoPlay is enabled. play() only settles once
+      // media is available, so it must not block polling for the first chunk.
+      if (this.options.autoPlay && this.videoElement.paused) {
+        this.videoElement.play().catch((error) => {
+          console.error("Error playing video:", error);
+          if (this.state.status === "buffering") {
+            this.setState({ status: "paused" });
+          }
+        });
+      }
+
+      // No media events fire until the first chunk has been appended
+      if (this.state.status === "loading") {
+        this.setState({ status: "buffering" });
+      }
+
+      this.stallTimer = window.setInterval(
+        this.checkPlayback,
+        STALL_CHECK_INTERVAL
+      );
 
-      // Load initial chunks
-      await this.loadInitialChunks();
+      if (this.vodTimeline) {
+        // Chunks are loaded as the playhead moves
+      } else if (this.manifest?.status === "ended") {
+        await this.finishStream();
+      } else {
+        // Start polling for manifest updates
+        this.startPolling();
+      }
     } catch (error) {
       console.error("Error initializing player:", error);
-      this.handleError(new Error("Failed to initialize player"));
+      this.handleError(
+        error instanceof ManifestValidationError
+          ? error
+          : new Error("Failed to initialize player")
+      );
       throw error;
     }
   }
@@ -659,6 +2243,12 @@ export class StreamPlayer {
   public stop(): void {
     // Stop polling
     this.stopPolling();
+    this.detachVideoListeners();
+
+    if (this.stallTimer !== null) {
+      clearInterval(this.stallTimer);
+      this.stallTimer = null;
+    }
 
     // Pause video
     if (this.videoElement) {
@@ -674,6 +2264,14 @@ export class StreamPlayer {
       }
     }
 
+    if (this.mediaSourceUrl) {
+      URL.revokeObjectURL(this.mediaSourceUrl);
+      this.mediaSourceUrl = null;
+    }
+
+    this.closeBufferManager();
+    this.prefetcher.cancel();
+    this.setCatchUpRate(1);
     this.isPlaying = false;
   }
 
@@ -681,146 +2279,1134 @@ export class StreamPlayer {
     return this.isPlaying;
   }
 
-  private async setupMediaSource(): Promise<void> {
-    return new Promise<void>((resolve, reject) => {
-      try {
-        // Create new MediaSource
-        this.mediaSource = new MediaSource();
+  public getState(): StreamPlayerState {
+    return this.state;
+  }
 
-        // Set video source to MediaSource URL
-        this.videoElement.src = URL.createObjectURL(this.mediaSource);
+  /**
+   * Playback position in seconds, e.g. for sharing a link to it. Clips count
+   * from their own start.
+   */
+  public getCurrentTime(): number {
+    const clip = this.getClipRange();
+    return clip
+      ? Math.max(0, this.videoElement.currentTime - clip.start)
+      : this.videoElement.currentTime;
+  }
 
-        // Setup source buffer when MediaSource opens
-        this.mediaSource.addEventListener("sourceopen", () => {
-          try {
-            // Find supported codec
-            const mimeTypes = [
-              "video/webm;codecs=vp9,opus",
-              "video/webm;codecs=vp8,opus",
-              "video/webm",
-            ];
-
-            let supportedMimeType: string | null = null;
-
-            for (const mimeType of mimeTypes) {
-              if (MediaSource.isTypeSupported(mimeType)) {
-                supportedMimeType = mimeType;
-                break;
-              }
-            }
+  /**
+   * Length of an ended stream (or clip) in seconds; null while it is live or
+   * cannot be laid out by chunk durations
+   */
+  public getDuration(): number | null {
+    const timeline = this.vodTimeline;
+    if (!timeline) {
+      return null;
+    }
 
-            if (!supportedMimeType) {
-              throw new Error("No supported codec found for stream playback");
-            }
+    const clip = this.getClipRange();
+    return clip ? clip.end - clip.start : timeline[timeline.length - 1].end;
+  }
 
-            // Create source buffer with supported codec
-            this.sourceBuffer =
-              this.mediaSource!.addSourceBuffer(supportedMimeType);
-
-            // Handle buffer updates
-            this.sourceBuffer.addEventListener("updateend", () => {
-              this.isBufferUpdating = false;
-              this.processNextPendingChunk();
-            });
-
-            this.isPlaying = true;
-            resolve();
-          } catch (error) {
-            console.error("Error setting up source buffer:", error);
-            reject(error);
-          }
-        });
+  /**
+   * The part of the timeline a clip plays, in seconds; null unless the
+   * manifest is a clip
+   */
+  private getClipRange(): { start: number; end: number } | null {
+    const clip = this.manifest?.clip;
+    return clip ? { start: clip.startMs / 1000, end: clip.endMs / 1000 } : null;
+  }
+
+  private setState(update: Partial<StreamPlayerState>): void {
+    this.state = { ...this.state, ...update };
+
+    if (this.onStateChangeCallback) {
+      this.onStateChangeCallback(this.state);
+    }
+  }
+
+  /**
+   * Updates who may sign the manifest (e.g. once the creator's Lens account
+   * and its owner are known) and re-checks the current revision
+   */
+  public setTrustedSigners(trustedSigners: string[]): void {
+    this.options.trustedSigners = trustedSigners;
+
+    if (this.manifest) {
+      this.verifyManifest(this.manifest);
+    }
+  }
+
+  /**
+   * Turns low-latency mode on or off while playing; turning it off returns
+   * to normal speed on the next latency update
+   */
+  public setLowLatency(lowLatency: boolean): void {
+    this.options.lowLatency = lowLatency;
+  }
+
+  /**
+   * Jumps to the live edge of a live stream and resumes playback
+   */
+  public goLive(): void {
+    if (!this.state.isLive) {
+      return;
+    }
+
+    this.seekToLiveEdge();
+
+    if (this.videoElement.paused) {
+      this.videoElement.play().catch((error) => {
+        console.error("Error playing video:", error);
+      });
+    }
+  }
+
+  /**
+   * Moves the playhead to the start of the newest buffered chunk; any later
+   * and playback would stall until the next chunk is published
+   */
+  private seekToLiveEdge(): void {
+    const buffered = this.videoElement.buffered;
+    if (buffered.length === 0) {
+      return;
+    }
+
+    const end = buffered.end(buffered.length - 1);
+    this.videoElement.currentTime = Math.max(
+      buffered.start(buffered.length - 1),
+      end - this.getLiveEdgeOffset()
+    );
+  }
+
+  /**
+   * Seconds between the live position and the end of the buffer
+   */
+  private getLiveEdgeOffset(): number {
+    return (this.lastAppendedChunk?.durationMs ?? 0) / 1000;
+  }
+
+  /**
+   * Works out how far behind live the playhead is from the buffer end and the
+   * timestamps of the newest appended and newest published chunks
+   */
+  private updateLiveLatency(): void {
+    const buffered = this.videoElement.buffered;
+    const liveEdge = this.manifest?.chunks[this.manifest.chunks.length - 1];
+
+    if (
+      !this.state.isLive ||
+      !liveEdge ||
+      !this.lastAppendedChunk ||
+      buffered.length === 0
+    ) {
+      if (this.state.secondsBehindLive !== null) {
+        this.setState({ secondsBehindLive: null, isBehindLive: false });
+      }
+      this.setCatchUpRate(1);
+      return;
+    }
+
+    const bufferedAhead =
+      buffered.end(buffered.length - 1) - this.videoElement.currentTime;
+    const notYetLoaded =
+      Math.max(0, liveEdge.timestamp - this.lastAppendedChunk.timestamp) / 1000;
+    const latency = Math.max(0, bufferedAhead + notYetLoaded);
+    const secondsBehindLive = Math.round(latency);
+    const isBehindLive =
+      secondsBehindLive > this.getLiveEdgeOffset() + LIVE_EDGE_TOLERANCE_SECONDS;
+
+    if (
+      secondsBehindLive !== this.state.secondsBehindLive ||
+      isBehindLive !== this.state.isBehindLive
+    ) {
+      this.setState({ secondsBehindLive, isBehindLive });
+    }
+
+    this.catchUpToLive(latency, bufferedAhead);
+  }
+
+  /**
+   * Low-latency mode: plays a little faster while the viewer is behind the
+   * target latency, and seeks to the live edge once they are too far behind
+   * to catch up that way
+   */
+  private catchUpToLive(latency: number, bufferedAhead: number): void {
+    if (
+      !this.options.lowLatency ||
+      !this.followsLive ||
+      this.videoElement.paused ||
+      this.isRecovering
+    ) {
+      this.setCatchUpRate(1);
+      return;
+    }
+
+    const liveEdgeOffset = this.getLiveEdgeOffset();
+    const drift =
+      latency - Math.max(this.options.targetLatency ?? 0, liveEdgeOffset);
+
+    // Only seek when the live edge is buffered; chunks still to be loaded
+    // are not made up for by jumping
+    if (
+      drift > (this.options.maxLatencyDrift ?? Infinity) &&
+      bufferedAhead - liveEdgeOffset > CATCH_UP_TOLERANCE_SECONDS
+    ) {
+      this.setCatchUpRate(1);
+      this.seekToLiveEdge();
+      return;
+    }
+
+    const canSpeedUp =
+      drift > CATCH_UP_TOLERANCE_SECONDS &&
+      bufferedAhead > MIN_CATCH_UP_BUFFER_SECONDS;
+    const rate = Math.min(
+      this.options.maxPlaybackRate ?? 1,
+      1 + drift * CATCH_UP_RATE_PER_SECOND
+    );
+
+    this.setCatchUpRate(canSpeedUp ? Math.round(rate * 100) / 100 : 1);
+  }
+
+  /**
+   * Sets the catch-up speed; a speed the viewer picked is left alone until
+   * low-latency mode actually needs to change it
+   */
+  private setCatchUpRate(rate: number): void {
+    if (rate === 1 && !this.isCatchingUp) {
+      return;
+    }
+
+    this.isCatchingUp = rate !== 1;
+    if (this.videoElement.playbackRate !== rate) {
+      this.videoElement.playbackRate = rate;
+    }
+  }
+
+  private handleManifest(manifest: StreamManifest): void {
+    const hasNewChunks = manifest.chunkCount > (this.manifest?.chunkCount ?? 0);
+
+    this.manifest = manifest;
+    this.mergePages();
+
+    if (hasNewChunks) {
+      this.trackNewestChunk();
+    }
+    this.setState({ manifest, isLive: manifest.status === "live" });
+    this.verifyManifest(manifest);
+    this.updateLiveLatency();
+
+    // Trigger callback
+    if (this.onManifestLoadedCallback) {
+      this.onManifestLoadedCallback(manifest);
+    }
+  }
+
+  /**
+   * Checks the revision's signature; only the latest check updates state.
+   * The manifest names its own creator, so nothing is trusted until the
+   * page says whose signature to expect.
+   */
+  private async verifyManifest(manifest: StreamManifest): Promise<void> {
+    const run = ++this.verificationRun;
+    const trustedSigners = this.options.trustedSigners ?? [];
+
+    if (trustedSigners.length === 0) {
+      this.setState({
+        verification: {
+          status: "unverified",
+          signer: null,
+          reason: "Creator not known yet",
+        },
+      });
+      return;
+    }
+
+    const verification = await verifyStreamManifest(manifest, trustedSigners);
+
+    if (run === this.verificationRun) {
+      this.setState({ verification });
+    }
+  }
+
+  private handleVideoWaiting = (): void => {
+    if (this.state.status !== "error" && this.state.status !== "reconnecting") {
+      this.setState({ status: "buffering" });
+    }
+
+    // A gap or a missing chunk can be dealt with right away
+    this.checkPlayback();
+  };
+
+  private handleVideoPlaying = (): void => {
+    this.setState({ status: "playing" });
+  };
+
+  private handleVideoPause = (): void => {
+    // A pause event also fires right before "ended"
+    if (!this.videoElement.ended && this.state.status !== "error") {
+      this.setState({ status: "paused" });
+    }
+
+    // Viewers who pause a live stream resume where they left off
+    if (this.state.isLive) {
+      this.followsLive = false;
+    }
+  };
+
+  private handleVideoTimeUpdate = (): void => {
+    this.updateLiveLatency();
+
+    // Playback has held up since the last rebuild
+    if (
+      this.recoveryAttempts > 0 &&
+      this.videoElement.currentTime - this.recoveredAt > RECOVERY_RESET_SECONDS
+    ) {
+      this.recoveryAttempts = 0;
+    }
+
+    if (this.vodTimeline) {
+      this.loadVodChunks();
+    }
+  };
+
+  /**
+   * Loads the chunks around the new position of an ended stream, and keeps
+   * live viewers inside the DVR window, noting whether they left the edge
+   */
+  private handleVideoSeeking = (): void => {
+    if (this.vodTimeline) {
+      // A clip's first chunk starts before the clip does
+      const clip = this.getClipRange();
+      if (clip && this.videoElement.currentTime < clip.start) {
+        this.videoElement.currentTime = clip.start;
+        return;
+      }
+
+      // Downloads for the old position would hold up the new one
+      this.prefetcher.cancel();
+      this.vodAttempted.clear();
+      this.loadVodChunks();
+      return;
+    }
+
+    const buffered = this.videoElement.buffered;
+    if (!this.state.isLive || buffered.length === 0) {
+      return;
+    }
+
+    const liveEdge =
+      buffered.end(buffered.length - 1) - this.getLiveEdgeOffset();
+    const windowStart = liveEdge - (this.options.dvrWindowSeconds ?? 0);
+
+    if (this.videoElement.currentTime < windowStart) {
+      this.videoElement.currentTime = Math.max(buffered.start(0), windowStart);
+    }
+
+    // Low-latency mode leaves viewers be while they watch back in the window
+    this.followsLive =
+      liveEdge - this.videoElement.currentTime <=
+      (this.options.maxLatencyDrift ?? 0);
+  };
+
+  private handleVideoEnded = (): void => {
+    this.setState({ status: "ended" });
+  };
+
+  private handleVideoError = (): void => {
+    const mediaError = this.videoElement.error;
+
+    // Errors raised after stop() come from the detached source
+    if (!mediaError || !this.mediaSourceUrl) {
+      return;
+    }
+
+    const errorName = MEDIA_ERROR_NAMES[mediaError.code] || "Unknown Error";
+    console.error("Video error:", {
+      code: mediaError.code,
+      name: errorName,
+      message: mediaError.message || "No detailed message",
+    });
+    this.recover(new Error(`Playback failed (${errorName})`));
+  };
+
+  /**
+   * Watches for a playhead that stopped moving. Small gaps are jumped, a
+   * chunk missing at the playhead is fetched again (and eventually skipped),
+   * and a decoder stuck on buffered media gets playback rebuilt.
+   */
+  private checkPlayback = (): void => {
+    const video = this.videoElement;
+    const position = video.currentTime;
+
+    if (
+      (video.paused && !video.seeking) ||
+      video.ended ||
+      this.isRecovering ||
+      !this.bufferManager ||
+      position !== this.lastPlayheadPosition
+    ) {
+      this.lastPlayheadPosition = position;
+      this.stalledSince = null;
+      return;
+    }
+
+    this.stalledSince ??= Date.now();
+    const stalledFor = Date.now() - this.stalledSince;
+
+    const gapEnd = this.getGapEnd(position);
+    if (gapEnd !== null && gapEnd - position <= MAX_GAP_SECONDS) {
+      video.currentTime = gapEnd + GAP_TOLERANCE_SECONDS;
+      return;
+    }
+
+    if (this.isBuffered(position + GAP_TOLERANCE_SECONDS)) {
+      if (stalledFor > STALL_TIMEOUT) {
+        this.recover(new Error("Playback stalled"));
+      }
+      return;
+    }
+
+    // Nothing to play at the playhead
+    if (this.vodTimeline) {
+      const segment = this.vodTimeline.find(
+        (candidate) => candidate.end > position
+      );
+
+      if (segment && stalledFor > STALL_TIMEOUT * 3) {
+        console.warn(
+          `Skipping chunk ${segment.chunk.index}, which would not load`
+        );
+        video.currentTime = segment.end;
+        return;
+      }
+
+      this.vodAttempted.clear();
+      this.loadVodChunks();
+    } else {
+      // At the live edge this just waits for the next chunk
+      this.loadNewChunks();
+    }
+  };
+
+  /**
+   * Start of the next buffered range when the playhead sits in a gap or at
+   * the end of a range, otherwise null
+   */
+  private getGapEnd(position: number): number | null {
+    const buffered = this.videoElement.buffered;
+
+    for (let i = 0; i < buffered.length; i++) {
+      if (position < buffered.start(i)) {
+        return buffered.start(i);
+      }
+      if (position < buffered.end(i) - GAP_TOLERANCE_SECONDS) {
+        return null;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Tears down the MediaSource and builds a new one from the current
+   * position. Gives up with a fatal error after MAX_RECOVERY_ATTEMPTS.
+   */
+  private async recover(reason: Error): Promise<void> {
+    if (this.isRecovering || !this.bufferManager) {
+      return;
+    }
+
+    if (this.recoveryAttempts >= MAX_RECOVERY_ATTEMPTS) {
+      this.handleError(reason);
+      return;
+    }
+
+    this.isRecovering = true;
+    this.recoveryAttempts++;
+    this.setState({ status: "reconnecting" });
+
+    const position = this.videoElement.currentTime;
+    const resumeChunk = this.vodTimeline ? null : this.getChunkAtPlayhead();
+
+    // Let the running loader stop; its last append goes nowhere
+    this.closeBufferManager();
+    this.prefetcher.cancel();
+    await this.chunkLoader;
+
+    if (this.mediaSourceUrl) {
+      URL.revokeObjectURL(this.mediaSourceUrl);
+      this.mediaSourceUrl = null;
+    }
+
+    this.currentHeader = null;
+    this.currentRendition = null;
+    this.lastAppendedChunk = null;
+    this.vodTimestampOffset = null;
+    this.vodAttempted.clear();
+
+    try {
+      await this.setupMediaSource();
+
+      if (this.vodTimeline) {
+        this.startVod(position);
+      } else {
+        const startChunk = resumeChunk && this.findStartableChunk(resumeChunk);
+        if (startChunk) {
+          this.lastProcessedChunkIndex = startChunk.index - 1;
+        } else if (this.state.isLive) {
+          this.skipToLiveEdge();
+        }
+
+        // A new MediaSource timeline starts at zero
+        await this.loadNewChunks();
+        await this.bufferManager?.waitForIdle();
+
+        const buffered = this.videoElement.buffered;
+        if (buffered.length > 0) {
+          this.videoElement.currentTime = buffered.start(0);
+        }
+      }
+
+      this.recoveredAt = this.videoElement.currentTime;
+      this.videoElement.play().catch((error) => {
+        console.error("Error playing video:", error);
+        this.setState({ status: "paused" });
+      });
+    } catch (error) {
+      console.error("Error rebuilding playback:", error);
+      this.handleError(reason);
+    } finally {
+      this.isRecovering = false;
+    }
+  }
+
+  /**
+   * The live chunk the playhead is in, counted back from the newest
+   * appended chunk by chunk durations
+   */
+  private getChunkAtPlayhead(): StreamChunk | null {
+    const chunks = this.getRendition(SOURCE_RENDITION)?.chunks ?? [];
+    const buffered = this.videoElement.buffered;
+    let position = chunks.findIndex(
+      (chunk) => chunk.index === this.lastAppendedChunk?.index
+    );
+
+    if (position === -1 || buffered.length === 0) {
+      return null;
+    }
+
+    let remaining =
+      buffered.end(buffered.length - 1) - this.videoElement.currentTime;
+    const cadence = this.getChunkCadence() / 1000;
+
+    while (position > 0) {
+      const duration = (chunks[position].durationMs ?? 0) / 1000 || cadence;
+      if (remaining <= duration) {
+        break;
+      }
+      remaining -= duration;
+      position--;
+    }
+
+    return chunks[position];
+  }
+
+  /**
+   * The first chunk from the given one on that playback can start at, i.e.
+   * whose header is known
+   */
+  private findStartableChunk(from: StreamChunk): StreamChunk | null {
+    const chunks = this.getRendition(SOURCE_RENDITION)?.chunks ?? [];
+
+    return (
+      chunks.find(
+        (chunk) =>
+          chunk.index >= from.index &&
+          this.getHeaderSource(SOURCE_RENDITION, chunk)
+      ) ?? null
+    );
+  }
+
+  private attachVideoListeners(): void {
+    this.videoElement.addEventListener("waiting", this.handleVideoWaiting);
+    this.videoElement.addEventListener("playing", this.handleVideoPlaying);
+    this.videoElement.addEventListener("pause", this.handleVideoPause);
+    this.videoElement.addEventListener("ended", this.handleVideoEnded);
+    this.videoElement.addEventListener("timeupdate", this.handleVideoTimeUpdate);
+    this.videoElement.addEventListener("seeking", this.handleVideoSeeking);
+    this.videoElement.addEventListener("error", this.handleVideoError);
+  }
+
+  private detachVideoListeners(): void {
+    this.videoElement.removeEventListener("waiting", this.handleVideoWaiting);
+    this.videoElement.removeEventListener("playing", this.handleVideoPlaying);
+    this.videoElement.removeEventListener("pause", this.handleVideoPause);
+    this.videoElement.removeEventListener("ended", this.handleVideoEnded);
+    this.videoElement.removeEventListener(
+      "timeupdate",
+      this.handleVideoTimeUpdate
+    );
+    this.videoElement.removeEventListener("seeking", this.handleVideoSeeking);
+    this.videoElement.removeEventListener("error", this.handleVideoError);
+  }
+
+  private closeBufferManager(): void {
+    this.bufferManager?.close();
+    this.bufferManager = null;
+  }
+
+  private async setupMediaSource(): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      try {
+        // Create new MediaSource
+        this.mediaSource = new MediaSource();
+
+        // Set video source to MediaSource URL
+        this.mediaSourceUrl = URL.createObjectURL(this.mediaSource);
+        this.videoElement.src = this.mediaSourceUrl;
+
+        // Setup source buffer when MediaSource opens
+        this.mediaSource.addEventListener(
+          "sourceopen",
+          () => {
+            try {
+              // Prefer the codec the manifest declares, then fall back
+              const candidates = [
+                this.manifest?.codec,
+                ...STREAM_MIME_TYPES[this.manifest?.kind ?? "video"],
+              ].filter(Boolean) as string[];
+              const supportedMimeType = candidates.find((mimeType) =>
+                MediaSource.isTypeSupported(mimeType)
+              );
+
+              if (!supportedMimeType) {
+                throw new Error("No supported codec found for stream playback");
+              }
+
+              // Create source buffer with supported codec
+              const sourceBuffer =
+                this.mediaSource!.addSourceBuffer(supportedMimeType);
+
+              // A resumed recording starts its timestamps from zero again, so
+              // live chunks are laid out one after another. Ended streams
+              // are placed by timestamp, offset per recording session, so
+              // any chunk can be loaded on its own.
+              sourceBuffer.mode = this.vodTimeline ? "segments" : "sequence";
+
+              // Media past the end of a clip is dropped as it is appended
+              const clip = this.getClipRange();
+              if (clip && this.vodTimeline) {
+                sourceBuffer.appendWindowEnd = clip.end;
+              }
+
+              // Appends go through the manager, which bounds the buffer size
+              // The DVR window must survive eviction
+              this.bufferManager = new SourceBufferManager(
+                sourceBuffer,
+                this.videoElement,
+                {
+                  backBufferSeconds: Math.max(
+                    this.options.backBufferSeconds ?? 60,
+                    this.options.dvrWindowSeconds ?? 0
+                  ),
+                }
+              );
+              this.bufferManager.onError((error) =>
+                this.handleError(error, false)
+              );
+
+              this.isPlaying = true;
+              resolve();
+            } catch (error) {
+              console.error("Error setting up source buffer:", error);
+              reject(error);
+            }
+          },
+          { once: true }
+        );
+      } catch (error) {
+        console.error("Error setting up MediaSource:", error);
+        reject(error);
+      }
+    });
+  }
+
+  private startPolling(): void {
+    this.stopPolling();
+    this.isPolling = true;
+    document.addEventListener("visibilitychange", this.handleVisibilityChange);
+    this.scheduleNextPoll();
+  }
+
+  private stopPolling(): void {
+    this.isPolling = false;
+    document.removeEventListener(
+      "visibilitychange",
+      this.handleVisibilityChange
+    );
+
+    if (this.pollTimeout !== null) {
+      clearTimeout(this.pollTimeout);
+      this.pollTimeout = null;
+    }
+  }
+
+  private scheduleNextPoll(delay: number = this.getPollDelay()): void {
+    if (!this.isPolling) {
+      return;
+    }
+
+    if (this.pollTimeout !== null) {
+      clearTimeout(this.pollTimeout);
+    }
+    this.pollTimeout = window.setTimeout(this.poll, delay);
+  }
+
+  private poll = async (): Promise<void> => {
+    this.pollTimeout = null;
+
+    try {
+      // Load latest manifest
+      const latestManifest = await loadStreamManifest(this.streamUri);
+
+      // Polling may have been stopped while the request was in flight
+      if (!this.isPolling) {
+        return;
+      }
+
+      const hasNewChunks =
+        latestManifest.chunkCount > (this.manifest?.chunkCount || 0);
+
+      // Update manifest if there are changes
+      if (
+        hasNewChunks ||
+        latestManifest.status !== this.manifest?.status ||
+        hasParticipantChanges(this.manifest, latestManifest)
+      ) {
+        this.handleManifest(latestManifest);
+
+        // Load any new chunks
+        await this.loadNewChunks();
+      }
+
+      if (!hasNewChunks && Date.now() > this.getNextChunkDue()) {
+        this.missedPolls++;
+      }
+
+      // If stream has ended, stop polling
+      if (latestManifest.status === "ended") {
+        this.stopPolling();
+        await this.finishStream();
+        return;
+      }
+    } catch (error) {
+      // Keep playing what we have; a later revision may be valid again
+      console.error("Error polling manifest:", error);
+      this.missedPolls++;
+      if (error instanceof ManifestValidationError) {
+        this.handleError(error, false);
+      }
+    }
+
+    this.scheduleNextPoll();
+  };
+
+  /**
+   * Sleeps until the next chunk should be in the manifest, then polls every
+   * pollingInterval, backing off while none arrives (a stalled stream) and
+   * while the tab is hidden with nothing to hear
+   */
+  private getPollDelay(): number {
+    const untilDue = this.getNextChunkDue() - Date.now();
+    let delay =
+      untilDue > 0
+        ? untilDue
+        : (this.options.pollingInterval || 2000) *
+          POLL_BACKOFF_FACTOR ** this.missedPolls;
+
+    if (this.manifest?.participants?.length) {
+      delay = Math.min(delay, PARTICIPANT_POLL_DELAY);
+    }
+
+    const isAudible = !this.videoElement.paused && !this.videoElement.muted;
+    if (document.hidden && !isAudible) {
+      delay = Math.max(delay, HIDDEN_POLL_DELAY);
+    }
+
+    return Math.min(Math.max(delay, MIN_POLL_DELAY), MAX_POLL_DELAY);
+  }
+
+  private getNextChunkDue(): number {
+    return (
+      this.lastChunkRecordedAt + this.getChunkCadence() + PUBLISH_MARGIN_MS
+    );
+  }
+
+  /**
+   * How often chunks are recorded: the newest chunk's duration, or the gap
+   * between the last two for manifests without durations
+   */
+  private getChunkCadence(): number {
+    const chunks = this.manifest?.chunks ?? [];
+    const last = chunks[chunks.length - 1];
+    const previous = chunks[chunks.length - 2];
+
+    if (last?.durationMs) {
+      return last.durationMs;
+    }
+    if (last && previous) {
+      return last.timestamp - previous.timestamp;
+    }
+    return this.options.pollingInterval || 2000;
+  }
+
+  /**
+   * Notes when the newest chunk finished recording. Its timestamp comes from
+   * the creator's clock, so it is only trusted within one chunk of now.
+   */
+  private trackNewestChunk(): void {
+    const chunks = this.manifest?.chunks ?? [];
+    const last = chunks[chunks.length - 1];
+    const now = Date.now();
+
+    this.lastChunkRecordedAt = last
+      ? Math.min(Math.max(last.timestamp, now - this.getChunkCadence()), now)
+      : now;
+    this.missedPolls = 0;
+  }
+
+  /**
+   * Checks for new chunks right away when the viewer comes back to the tab
+   */
+  private handleVisibilityChange = (): void => {
+    if (!document.hidden && this.pollTimeout !== null) {
+      this.scheduleNextPoll(0);
+    }
+  };
+
+  /**
+   * Closes the MediaSource once every chunk of an ended stream is buffered
+   */
+  private async finishStream(): Promise<void> {
+    await this.loadNewChunks();
+    await this.bufferManager?.waitForIdle();
+
+    // Trigger callback
+    if (this.onStreamEndedCallback) {
+      this.onStreamEndedCallback();
+    }
+
+    this.endMediaSource();
+  }
+
+  private endMediaSource(): void {
+    if (this.mediaSource && this.mediaSource.readyState === "open") {
+      try {
+        this.mediaSource.endOfStream();
       } catch (error) {
-        console.error("Error setting up MediaSource:", error);
-        reject(error);
+        console.error("Error ending media source stream:", error);
+      }
+    }
+  }
+
+  /**
+   * Runs a chunk loading loop unless one is already running. Only one loop
+   * may append at a time so chunks are appended in order.
+   */
+  private async runChunkLoader(loop: () => Promise<void>): Promise<void> {
+    if (this.chunkLoader) {
+      return;
+    }
+
+    const loader = loop();
+    this.chunkLoader = loader;
+
+    try {
+      await loader;
+    } finally {
+      this.chunkLoader = null;
+    }
+  }
+
+  private async loadNewChunks(): Promise<void> {
+    if (!this.manifest) {
+      return;
+    }
+
+    await this.runChunkLoader(async () => {
+      // Keep going until the loop catches up with the latest manifest
+      let newChunks = await this.getUnprocessedChunks();
+
+      while (newChunks.length > 0 && this.bufferManager) {
+        for (const [i, chunk] of newChunks.entries()) {
+          this.prefetchChunks(newChunks.slice(i + 1));
+          await this.loadChunk(chunk);
+        }
+        newChunks = await this.getUnprocessedChunks();
       }
     });
   }
 
-  private startPolling(): void {
-    // Clear existing interval if any
-    this.stopPolling();
+  /**
+   * Lays the chunks of an ended stream out by their durations. Returns null
+   * (and the stream is played start to finish) unless every chunk has a
+   * duration and a known header.
+   */
+  private buildVodTimeline(): VodSegment[] | null {
+    const chunks = this.getRendition(SOURCE_RENDITION)?.chunks ?? [];
+    if (chunks.length === 0 || chunks.length !== this.manifest?.chunkCount) {
+      return null;
+    }
 
-    // Poll for manifest updates at specified interval
-    this.pollingInterval = window.setInterval(async () => {
-      try {
-        // Load latest manifest
-        const latestManifest = await loadStreamManifest(this.streamUri);
+    const timeline: VodSegment[] = [];
+    let position = 0;
+    let sessionKey: string | null = null;
+    let sessionStart = 0;
+
+    for (const chunk of chunks) {
+      const header = this.getHeaderSource(SOURCE_RENDITION, chunk);
+      if (chunk.durationMs === null || !header) {
+        return null;
+      }
+
+      if (header.key !== sessionKey) {
+        sessionKey = header.key;
+        sessionStart = position;
+      }
+
+      const end = position + chunk.durationMs / 1000;
+      timeline.push({
+        chunk,
+        start: position,
+        end,
+        sessionStart,
+      });
+      position = end;
+    }
+
+    return timeline;
+  }
+
+  /**
+   * Sets the duration of an ended stream (a clip ends at its end offset),
+   * moves to the start position and begins loading there
+   */
+  private startVod(startTime: number): void {
+    const timeline = this.vodTimeline;
+    if (!timeline || !this.mediaSource) {
+      return;
+    }
 
-        // Update manifest if there are changes
-        if (latestManifest.chunkCount > (this.manifest?.chunkCount || 0)) {
-          this.manifest = latestManifest;
+    const duration =
+      this.getClipRange()?.end ?? timeline[timeline.length - 1].end;
+    this.mediaSource.duration = duration;
 
-          // Load any new chunks
-          await this.loadNewChunks();
+    if (startTime > 0) {
+      this.videoElement.currentTime = Math.min(startTime, duration);
+    }
+
+    this.loadVodChunks();
+  }
+
+  /**
+   * Loads the chunks of an ended stream that cover the playhead and the
+   * stretch ahead of it, appending them one at a time. Ends the MediaSource
+   * once the last chunk is in so playback stops there.
+   */
+  private async loadVodChunks(): Promise<void> {
+    const timeline = this.vodTimeline;
+    if (!timeline) {
+      return;
+    }
+
+    await this.runChunkLoader(async () => {
+      let segment = this.getNextVodSegment();
+
+      while (segment && this.bufferManager) {
+        this.vodAttempted.add(segment.chunk.index);
+        this.prefetchChunks(
+          this.getNextVodSegments().map((next) => next.chunk)
+        );
+
+        try {
+          await this.appendChunk(
+            segment.chunk,
+            segment.sessionStart !== this.vodTimestampOffset
+              ? segment.sessionStart
+              : undefined
+          );
+          this.vodTimestampOffset = segment.sessionStart;
+        } catch (error) {
+          // Cancelled by a seek; the chunk loads again if it is still needed
+          if (isAbortError(error)) {
+            segment = this.getNextVodSegment();
+            continue;
+          }
+
+          console.error(`Error loading chunk ${segment.chunk.index}:`, error);
+          this.handleError(
+            error instanceof Error
+              ? error
+              : new Error(`Failed to load chunk ${segment.chunk.index}`),
+            false
+          );
         }
 
-        // If stream has ended, stop polling
-        if (latestManifest.status === "ended") {
-          this.stopPolling();
+        // Buffered ranges only include the chunk once the append finishes
+        await this.bufferManager?.waitForIdle();
 
-          // Trigger callback
+        if (segment === timeline[timeline.length - 1]) {
+          this.endMediaSource();
           if (this.onStreamEndedCallback) {
             this.onStreamEndedCallback();
           }
-
-          // End the stream
-          if (this.mediaSource && this.mediaSource.readyState === "open") {
-            try {
-              this.mediaSource.endOfStream();
-            } catch (error) {
-              console.error("Error ending media source stream:", error);
-            }
-          }
         }
-      } catch (error) {
-        console.error("Error polling manifest:", error);
+
+        segment = this.getNextVodSegment();
       }
-    }, this.options.pollingInterval || 2000);
+    });
   }
 
-  private stopPolling(): void {
-    if (this.pollingInterval !== null) {
-      clearInterval(this.pollingInterval);
-      this.pollingInterval = null;
+  /**
+   * The chunks between the playhead and the load-ahead horizon that are not
+   * buffered or being loaded yet, in timeline order
+   */
+  private getNextVodSegments(): VodSegment[] {
+    const position = this.videoElement.currentTime;
+    const horizon = position + VOD_BUFFER_AHEAD_SECONDS;
+
+    return (this.vodTimeline ?? []).filter(
+      (segment) =>
+        segment.end > position &&
+        segment.start < horizon &&
+        !this.vodAttempted.has(segment.chunk.index) &&
+        !this.isBuffered((segment.start + segment.end) / 2)
+    );
+  }
+
+  private getNextVodSegment(): VodSegment | null {
+    return this.getNextVodSegments()[0] ?? null;
+  }
+
+  private isBuffered(time: number): boolean {
+    const buffered = this.videoElement.buffered;
+
+    for (let i = 0; i < buffered.length; i++) {
+      if (time >= buffered.start(i) && time < buffered.end(i)) {
+        return true;
+      }
     }
+    return false;
   }
 
-  private async loadInitialChunks(): Promise<void> {
-    if (!this.manifest || this.manifest.chunks.length === 0) {
+  /**
+   * Skips the history of a live stream older than the DVR window, so loading
+   * starts at the first chunk inside it. A chunk can only be started from
+   * when its header is known.
+   */
+  private skipToLiveEdge(): void {
+    const chunks = this.manifest?.chunks ?? [];
+    const liveEdge = chunks[chunks.length - 1];
+    if (!liveEdge) {
       return;
     }
 
-    // Load first few chunks (e.g., the first 2 chunks)
-    const initialChunksToLoad = Math.min(2, this.manifest.chunks.length);
+    this.seekToLiveOnStart = true;
+
+    const windowStart =
+      liveEdge.timestamp - (this.options.dvrWindowSeconds ?? 0) * 1000;
+    const firstChunk = chunks.find(
+      (chunk) =>
+        (chunk.timestamp > windowStart || chunk === liveEdge) &&
+        this.getHeaderSource(SOURCE_RENDITION, chunk)
+    );
+
+    if (firstChunk) {
+      this.lastProcessedChunkIndex = firstChunk.index - 1;
+    }
+  }
 
-    for (let i = 0; i < initialChunksToLoad; i++) {
-      await this.loadChunk(this.manifest.chunks[i]);
+  /**
+   * Chunks after the last processed one. Archived chunks are loaded a page
+   * at a time as playback reaches them.
+   */
+  private async getUnprocessedChunks(): Promise<StreamChunk[]> {
+    if (!this.manifest) {
+      return [];
     }
 
-    // Start video playback if autoPlay is enabled
-    if (this.options.autoPlay && this.videoElement.paused) {
+    const nextIndex = this.lastProcessedChunkIndex + 1;
+    const nextPage = this.manifest.pages?.find(
+      (page) => page.lastIndex >= nextIndex && !this.pages.has(page.uri)
+    );
+
+    if (nextPage && nextPage.firstIndex <= nextIndex) {
       try {
-        await this.videoElement.play();
+        await this.loadPage(nextPage);
       } catch (error) {
-        console.error("Error playing video:", error);
+        console.error(
+          `Error loading manifest page ${nextPage.firstIndex}-${nextPage.lastIndex}:`,
+          error
+        );
+        this.handleError(
+          new Error(
+            `Failed to load chunks ${nextPage.firstIndex}-${nextPage.lastIndex}`
+          ),
+          false
+        );
+
+        // Skip its chunks like any other chunk that fails to load
+        this.lastProcessedChunkIndex = nextPage.lastIndex;
       }
+      return this.getUnprocessedChunks();
     }
+
+    return (this.getRendition(SOURCE_RENDITION)?.chunks ?? [])
+      .filter(
+        (chunk) =>
+          chunk.index >= nextIndex &&
+          (!nextPage || chunk.index < nextPage.firstIndex)
+      )
+      .sort((a, b) => a.index - b.index);
   }
 
-  private async loadNewChunks(): Promise<void> {
-    if (!this.manifest) {
+  private async loadPage(page: ManifestPage): Promise<void> {
+    if (this.pages.has(page.uri)) {
       return;
     }
 
-    // Find chunks that haven't been processed yet
-    const newChunks = this.manifest.chunks.filter(
-      (chunk) => chunk.index > this.lastProcessedChunkIndex
+    this.pages.set(page.uri, await loadManifestPage(page));
+    this.mergePages();
+  }
+
+  private async loadAllPages(): Promise<void> {
+    await Promise.all(
+      (this.manifest?.pages ?? []).map((page) =>
+        this.loadPage(page).catch((error) => {
+          console.error(
+            `Error loading manifest page ${page.firstIndex}-${page.lastIndex}:`,
+            error
+          );
+        })
+      )
     );
+  }
+
+  private mergePages(): void {
+    this.mergedManifest =
+      this.manifest &&
+      mergeManifestPages(this.manifest, [...this.pages.values()]);
+  }
 
-    // Load each new chunk
-    for (const chunk of newChunks) {
-      await this.loadChunk(chunk);
+  /**
+   * Starts downloading the chunks that come next while the current one is
+   * appended. Each keeps the rendition picked for it here.
+   */
+  private prefetchChunks(chunks: StreamChunk[]): void {
+    for (const chunk of chunks.slice(0, this.options.prefetchChunks ?? 0)) {
+      if (!this.prefetcher.get(chunk.index)) {
+        this.prefetcher.prefetch(chunk.index, this.selectRendition(chunk));
+      }
     }
   }
 
@@ -831,69 +3417,360 @@ export class StreamPlayer {
         return;
       }
 
-      // Resolve chunk URI to URL
-      const chunkUrl = resolveUri(chunk.uri);
-
-      // Fetch chunk data
-      const response = await fetch(chunkUrl);
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch chunk: ${chunk.index}`);
+      await this.appendChunk(chunk);
+    } catch (error) {
+      // Cancelled because playback stopped or is being rebuilt
+      if (isAbortError(error)) {
+        return;
       }
 
-      // Get chunk data as ArrayBuffer
-      const chunkData = await response.arrayBuffer();
-
-      // Add to pending chunks
-      this.pendingChunks.push(chunkData);
-
-      // Process chunk if possible
-      this.processNextPendingChunk();
-
+      console.error(`Error loading chunk ${chunk.index}:`, error);
+      this.handleError(
+        error instanceof Error
+          ? error
+          : new Error(`Failed to load chunk ${chunk.index}`),
+        false
+      );
+    } finally {
       // Update last processed chunk
       this.lastProcessedChunkIndex = Math.max(
         this.lastProcessedChunkIndex,
         chunk.index
       );
-    } catch (error) {
-      console.error(`Error loading chunk ${chunk.index}:`, error);
-      this.handleError(new Error(`Failed to load chunk ${chunk.index}`));
     }
   }
 
-  private processNextPendingChunk(): void {
-    // Skip if buffer is updating or no pending chunks
+  /**
+   * Fetches a chunk in the rendition that suits the connection (or takes its
+   * prefetched download) and appends it, behind its header when needed. A
+   * timestampOffset starts it at a new position in the buffer.
+   */
+  private async appendChunk(
+    chunk: StreamChunk,
+    timestampOffset?: number
+  ): Promise<void> {
+    let target =
+      this.prefetcher.get(chunk.index) ?? this.selectRendition(chunk);
+    let header = await this.prepareHeader(target);
+
+    // A rendition cannot be switched to without its header
     if (
-      this.isBufferUpdating ||
-      this.pendingChunks.length === 0 ||
-      !this.sourceBuffer
+      !header &&
+      this.currentRendition !== null &&
+      target.rendition !== this.currentRendition
     ) {
-      return;
+      target = this.getRenditionChunk(this.currentRendition, chunk);
+      header = await this.prepareHeader(target);
+    }
+
+    const chunkData = await this.prefetcher.take(chunk.index, target);
+
+    // Unless it follows the last appended chunk, a chunk without its own
+    // header is parsed from its first Cluster
+    const continuesBuffer =
+      !header?.data &&
+      target.rendition === this.currentRendition &&
+      this.lastAppendedChunk?.index === target.chunk.index - 1;
+    const data =
+      continuesBuffer || hasInitSegment(chunkData)
+        ? chunkData
+        : trimToFirstCluster(chunkData);
+
+    if (!data) {
+      throw new Error(
+        `Chunk ${chunk.index} has no point to start playback from`
+      );
+    }
+
+    if (header?.data) {
+      this.bufferManager?.append(header.data, timestampOffset);
+    }
+    this.bufferManager?.append(
+      data,
+      header?.data ? undefined : timestampOffset
+    );
+    this.currentHeader = header?.key ?? this.currentHeader;
+    this.lastAppendedChunk = target.chunk;
+
+    if (target.rendition !== this.currentRendition) {
+      this.currentRendition = target.rendition;
+      this.setState({ rendition: target.rendition });
+    }
+  }
+
+  /**
+   * Works out whether a header must be appended before a chunk: only when the
+   * chunk belongs to a different recording or rendition than the last one and
+   * does not start with its own. Returns null if a needed header is missing.
+   */
+  private async prepareHeader(target: {
+    rendition: string;
+    chunk: StreamChunk;
+  }): Promise<{ key: string | null; data: ArrayBuffer | null } | null> {
+    const source = this.getHeaderSource(target.rendition, target.chunk);
+
+    // Nothing is known about the header; append the chunk as it is
+    if (!source) {
+      return { key: null, data: null };
+    }
+
+    if (source.inChunk || source.key === this.currentHeader) {
+      return { key: source.key, data: null };
+    }
+
+    const data = await source.load();
+    return data ? { key: source.key, data } : null;
+  }
+
+  private getHeaderSource(
+    renditionId: string,
+    chunk: StreamChunk
+  ): HeaderSource | null {
+    const rendition = this.getRendition(renditionId);
+    if (!rendition) {
+      return null;
+    }
+
+    const initSegment = findInitSegment(rendition.initSegments, chunk.index);
+    if (initSegment) {
+      return {
+        key: initSegment.uri,
+        inChunk: initSegment.firstIndex === chunk.index,
+        load: () => this.loadInitSegment(initSegment),
+      };
+    }
+
+    // Manifests written before init segments were stored separately
+    const sessionStart = findSessionStart(rendition.chunks, chunk.index);
+    if (sessionStart) {
+      return {
+        key: sessionStart.uri,
+        inChunk: sessionStart.index === chunk.index,
+        load: () => this.loadHeaderFromChunk(sessionStart),
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Fetches and verifies a chunk (see fetchVerifiedChunk), timing the
+   * download for rendition switching
+   */
+  private async fetchChunk(
+    chunk: StreamChunk,
+    signal?: AbortSignal
+  ): Promise<ArrayBuffer> {
+    const chunkData = await fetchVerifiedChunk(chunk, {
+      signal,
+      // A stopped player has nothing to retry for
+      canRetry: () => !!this.bufferManager,
+      // Prefetches share the connection, so while catching up the measured
+      // throughput errs low and so does the rendition
+      onDownloaded: (bytes, elapsedMs) =>
+        this.recordThroughput(bytes, elapsedMs),
+    });
+
+    // Remember headers so a later switch back to this rendition is cheap
+    if (hasInitSegment(chunkData) && !this.initSegments.has(chunk.uri)) {
+      const initSegment = extractInitSegment(chunkData);
+      if (initSegment) {
+        this.initSegments.set(chunk.uri, initSegment);
+      }
+    }
+
+    return chunkData;
+  }
+
+  /**
+   * Loads a recording's header from its init segment entry
+   */
+  private async loadInitSegment(
+    initSegment: StreamInitSegment
+  ): Promise<ArrayBuffer | null> {
+    const cached = this.initSegments.get(initSegment.uri);
+    if (cached) {
+      return cached;
     }
 
     try {
-      // Get next chunk
-      const nextChunk = this.pendingChunks.shift();
+      const response = await fetch(resolveUri(initSegment.uri));
 
-      if (!nextChunk) {
-        return;
+      if (!response.ok) {
+        throw new Error(`Failed to fetch init segment: ${response.status}`);
       }
 
-      // Mark buffer as updating
-      this.isBufferUpdating = true;
+      const data = await response.arrayBuffer();
+      if ((await computeSha256(data)) !== initSegment.sha256) {
+        throw new Error(
+          `Init segment for chunk ${initSegment.firstIndex} failed its integrity check`
+        );
+      }
 
-      // Append chunk to source buffer
-      this.sourceBuffer.appendBuffer(nextChunk);
+      this.initSegments.set(initSegment.uri, data);
+      return data;
     } catch (error) {
-      console.error("Error appending chunk to buffer:", error);
-      this.isBufferUpdating = false;
+      console.error(
+        `Error loading init segment for chunk ${initSegment.firstIndex}:`,
+        error
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Loads the WebM header from the chunk that started a recording session.
+   * Only the first bytes are requested; the header is usually under a kilobyte.
+   */
+  private async loadHeaderFromChunk(
+    sessionStart: StreamChunk
+  ): Promise<ArrayBuffer | null> {
+    const cached = this.initSegments.get(sessionStart.uri);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const response = await fetch(resolveUri(sessionStart.uri), {
+        headers: { Range: `bytes=0-${INIT_SEGMENT_RANGE - 1}` },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch chunk: ${sessionStart.index}`);
+      }
+
+      let data = await response.arrayBuffer();
+      let initSegment = extractInitSegment(data);
+
+      // Gateways that ignore Range send the whole chunk, which can be verified
+      if (
+        response.status === 200 &&
+        sessionStart.sha256 &&
+        (await computeSha256(data)) !== sessionStart.sha256
+      ) {
+        throw new Error(`Chunk ${sessionStart.index} failed its integrity check`);
+      }
 
-      // Try next chunk on error
-      this.processNextPendingChunk();
+      // A header larger than the range needs the full chunk
+      if (!initSegment && response.status === 206) {
+        data = await this.fetchChunk(sessionStart);
+        initSegment = extractInitSegment(data);
+      }
+
+      if (initSegment) {
+        this.initSegments.set(sessionStart.uri, initSegment);
+      }
+      return initSegment;
+    } catch (error) {
+      console.error(`Error loading header for chunk ${sessionStart.index}:`, error);
+      return null;
     }
   }
 
-  private handleError(error: Error): void {
+  private recordThroughput(bytes: number, elapsedMs: number): void {
+    if (elapsedMs <= 0) {
+      return;
+    }
+
+    const sample = (bytes * 8 * 1000) / elapsedMs;
+    this.throughput =
+      this.throughput === null
+        ? sample
+        : this.throughput * (1 - THROUGHPUT_SMOOTHING) +
+          sample * THROUGHPUT_SMOOTHING;
+  }
+
+  /**
+   * The source plus every extra rendition the source buffer can play
+   */
+  private getPlayableRenditions(): PlayableRendition[] {
+    const manifest = this.mergedManifest;
+    if (!manifest) {
+      return [];
+    }
+
+    const source: PlayableRendition = {
+      id: SOURCE_RENDITION,
+      codec: manifest.codec,
+      videoBitsPerSecond: null,
+      chunks: manifest.chunks,
+      initSegments: manifest.initSegments,
+    };
+
+    // Switching is limited to renditions sharing the source's codec
+    const renditions = (manifest.renditions ?? []).filter(
+      (rendition) =>
+        !rendition.codec ||
+        !source.codec ||
+        normalizeCodec(rendition.codec) === normalizeCodec(source.codec)
+    );
+
+    return [source, ...renditions];
+  }
+
+  private getRendition(id: string): PlayableRendition | undefined {
+    return this.getPlayableRenditions().find((rendition) => rendition.id === id);
+  }
+
+  /**
+   * The chunk at the same index in another rendition, falling back to the source
+   */
+  private getRenditionChunk(
+    id: string,
+    sourceChunk: StreamChunk
+  ): { rendition: string; chunk: StreamChunk } {
+    const chunk = this.getRendition(id)?.chunks.find(
+      (candidate) => candidate.index === sourceChunk.index
+    );
+
+    return chunk
+      ? { rendition: id, chunk }
+      : { rendition: SOURCE_RENDITION, chunk: sourceChunk };
+  }
+
+  /**
+   * Picks the highest-bitrate rendition that fits the measured throughput.
+   * Playback starts on the lowest rendition until a download has been timed.
+   */
+  private selectRendition(sourceChunk: StreamChunk): {
+    rendition: string;
+    chunk: StreamChunk;
+  } {
+    if (!this.options.abr || !this.manifest?.renditions?.length) {
+      return { rendition: SOURCE_RENDITION, chunk: sourceChunk };
+    }
+
+    const candidates = this.getPlayableRenditions()
+      .map((rendition) => ({
+        rendition: rendition.id,
+        bitrate: estimateBitrate(rendition),
+        chunk: rendition.chunks.find(
+          (chunk) => chunk.index === sourceChunk.index
+        ),
+      }))
+      .filter(
+        (candidate): candidate is typeof candidate & { chunk: StreamChunk } =>
+          candidate.chunk !== undefined
+      )
+      .sort((a, b) => b.bitrate - a.bitrate);
+
+    const lowest = candidates[candidates.length - 1];
+    if (this.throughput === null) {
+      return lowest;
+    }
+
+    const budget = this.throughput * ABR_SAFETY_FACTOR;
+    return candidates.find((candidate) => candidate.bitrate <= budget) ?? lowest;
+  }
+
+  /**
+   * Reports an error; fatal errors also move the player into the error state
+   */
+  private handleError(error: Error, fatal: boolean = true): void {
+    if (fatal) {
+      this.setState({ status: "error", error });
+    }
+
     if (this.onErrorCallback) {
       this.onErrorCallback(error);
     }
@@ -905,9 +3782,15 @@ export default {
   createStreamManifest,
   initializeStream,
   uploadStreamChunk,
+  uploadInitSegment,
+  uploadThumbnail,
   updateStreamManifest,
   endStream,
   loadStreamManifest,
+  loadManifestPage,
+  downloadStreamRecording,
+  createStreamClip,
+  verifyStreamManifest,
   StreamRecorder,
   StreamPlayer,
 };
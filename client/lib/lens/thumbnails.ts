@@ -0,0 +1,90 @@
+/**
+ * LensSpaces - Thumbnails
+ *
+ * Grabs still frames from a live camera stream while it is recorded, so
+ * explore cards can show what is on screen instead of the creator's avatar.
+ */
+
+// Width of captured frames; the height follows the source aspect ratio
+const THUMBNAIL_WIDTH = 640;
+
+// JPEG quality of captured frames (0-1)
+const THUMBNAIL_QUALITY = 0.8;
+
+// How long to wait for the first frame of the stream (ms)
+const FRAME_TIMEOUT = 5000;
+
+/**
+ * Resolves once a video element has a frame to draw
+ */
+function waitForFrame(video: HTMLVideoElement): Promise<void> {
+  if (video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+    return Promise.resolve();
+  }
+
+  return new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      video.removeEventListener("loadeddata", handleLoaded);
+      reject(new Error("No video frame to capture"));
+    }, FRAME_TIMEOUT);
+
+    const handleLoaded = () => {
+      clearTimeout(timeout);
+      resolve();
+    };
+
+    video.addEventListener("loadeddata", handleLoaded, { once: true });
+  });
+}
+
+/**
+ * Draws the current frame of a stream's video onto a canvas and encodes it
+ * as a JPEG
+ */
+export async function captureFrame(
+  source: MediaStream,
+  width: number = THUMBNAIL_WIDTH
+): Promise<Blob> {
+  const [videoTrack] = source.getVideoTracks();
+  if (!videoTrack || videoTrack.readyState !== "live") {
+    throw new Error("Cannot capture a frame from a stream without video");
+  }
+
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = new MediaStream([videoTrack]);
+
+  try {
+    await video.play();
+    await waitForFrame(video);
+
+    // Never upscale
+    const scale = Math.min(1, width / (video.videoWidth || width));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round((video.videoWidth || width) * scale);
+    canvas.height = Math.round((video.videoHeight || (width * 9) / 16) * scale);
+
+    const context = canvas.getContext("2d");
+    if (!context) {
+      throw new Error("Canvas 2D context is not available");
+    }
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (blob) =>
+          blob ? resolve(blob) : reject(new Error("Failed to encode frame")),
+        "image/jpeg",
+        THUMBNAIL_QUALITY
+      );
+    });
+  } finally {
+    video.pause();
+    video.srcObject = null;
+  }
+}
+
+export default {
+  captureFrame,
+};
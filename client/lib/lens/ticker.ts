@@ -0,0 +1,28 @@
+/**
+ * LensSpaces - Ticker
+ *
+ * Steady timers for drawing video frames onto canvases while recording.
+ */
+
+/**
+ * Calls onTick every interval from a worker and returns a function that
+ * stops it. Screen sharing usually leaves the tab in the background, where
+ * the page's own timers are throttled to once a second; a worker's are not.
+ */
+export function createTicker(interval: number, onTick: () => void): () => void {
+  const source = `setInterval(() => postMessage(null), ${interval});`;
+  const url = URL.createObjectURL(
+    new Blob([source], { type: "text/javascript" })
+  );
+  const worker = new Worker(url);
+  worker.onmessage = onTick;
+
+  return () => {
+    worker.terminate();
+    URL.revokeObjectURL(url);
+  };
+}
+
+export default {
+  createTicker,
+};
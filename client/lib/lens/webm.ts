@@ -0,0 +1,621 @@
+/**
+ * LensSpaces - WebM
+ *
+ * Minimal EBML parsing for the WebM files MediaRecorder produces. Only the
+ * first chunk of a recording carries the header (EBML + Segment info +
+ * Tracks); later chunks are bare Clusters that need that header in front.
+ * WebmRemuxer joins whole recordings back into a single seekable file.
+ */
+
+const EBML_HEADER_ID = 0x1a45dfa3;
+const SEGMENT_ID = 0x18538067;
+const CLUSTER_ID = 0x1f43b675;
+const TIMECODE_ID = 0xe7;
+const SEEK_HEAD_ID = 0x114d9b74;
+const SEEK_ID = 0x4dbb;
+const SEEK_ID_ID = 0x53ab;
+const SEEK_POSITION_ID = 0x53ac;
+const INFO_ID = 0x1549a966;
+const TIMECODE_SCALE_ID = 0x2ad7b1;
+const DURATION_ID = 0x4489;
+const MUXING_APP_ID = 0x4d80;
+const WRITING_APP_ID = 0x5741;
+const TRACKS_ID = 0x1654ae6b;
+const TRACK_ENTRY_ID = 0xae;
+const TRACK_NUMBER_ID = 0xd7;
+const TRACK_TYPE_ID = 0x83;
+const SIMPLE_BLOCK_ID = 0xa3;
+const BLOCK_GROUP_ID = 0xa0;
+const BLOCK_ID = 0xa1;
+const REFERENCE_BLOCK_ID = 0xfb;
+const CUES_ID = 0x1c53bb6b;
+const CUE_POINT_ID = 0xbb;
+const CUE_TIME_ID = 0xb3;
+const CUE_TRACK_POSITIONS_ID = 0xb7;
+const CUE_TRACK_ID = 0xf7;
+const CUE_CLUSTER_POSITION_ID = 0xf1;
+
+const VIDEO_TRACK_TYPE = 1;
+
+// Nanoseconds per timecode unit when a recording does not say; MediaRecorder
+// uses milliseconds
+const DEFAULT_TIMECODE_SCALE = 1000000;
+
+const APP_NAME = "LensSpaces";
+
+interface ElementHeader {
+  id: number;
+  size: number | null; // Null when the size is unknown (live recordings)
+  headerLength: number;
+}
+
+interface BlockHeader {
+  track: number;
+  timecode: number; // Relative to the Cluster
+  keyframe: boolean;
+}
+
+interface RemuxedCluster {
+  timecode: number;
+  blocks: Uint8Array[]; // SimpleBlock and BlockGroup elements as recorded
+  size: number; // Bytes in blocks
+  cue: { time: number; track: number } | null; // First keyframe, preferring video
+}
+
+/**
+ * Reads an EBML variable-length integer. IDs keep their length marker bit,
+ * sizes drop it.
+ */
+function readVint(
+  bytes: Uint8Array,
+  offset: number,
+  keepMarker: boolean
+): { value: number; length: number; allOnes: boolean } | null {
+  const first = bytes[offset];
+  if (first === undefined || first === 0) return null;
+
+  const length = Math.clz32(first) - 23;
+  if (offset + length > bytes.length) return null;
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === 0xff >> length;
+
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+    allOnes = allOnes && bytes[offset + i] === 0xff;
+  }
+
+  return { value, length, allOnes };
+}
+
+function readElementHeader(
+  bytes: Uint8Array,
+  offset: number
+): ElementHeader | null {
+  const id = readVint(bytes, offset, true);
+  if (!id) return null;
+
+  const size = readVint(bytes, offset + id.length, false);
+  if (!size) return null;
+
+  return {
+    id: id.value,
+    size: size.allOnes ? null : size.value,
+    headerLength: id.length + size.length,
+  };
+}
+
+function readUint(bytes: Uint8Array, offset: number, length: number): number {
+  let value = 0;
+  for (let i = 0; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+  }
+  return value;
+}
+
+/**
+ * Calls back with each child element of an element's payload
+ */
+function forEachChild(
+  payload: Uint8Array,
+  callback: (id: number, data: Uint8Array) => void
+): void {
+  let offset = 0;
+  while (offset < payload.length) {
+    const child = readElementHeader(payload, offset);
+    if (!child || child.size === null) return;
+
+    const start = offset + child.headerLength;
+    callback(child.id, payload.subarray(start, start + child.size));
+    offset = start + child.size;
+  }
+}
+
+/**
+ * Reads the track, timecode and keyframe flag at the start of a SimpleBlock
+ * or Block payload
+ */
+function readBlockHeader(payload: Uint8Array): BlockHeader | null {
+  const track = readVint(payload, 0, false);
+  if (!track || payload.length < track.length + 3) return null;
+
+  const view = new DataView(
+    payload.buffer,
+    payload.byteOffset + track.length,
+    3
+  );
+
+  return {
+    track: track.value,
+    timecode: view.getInt16(0),
+    keyframe: (view.getUint8(2) & 0x80) !== 0,
+  };
+}
+
+/**
+ * Reads the Block inside a BlockGroup, which is a keyframe unless the group
+ * references another block
+ */
+function readBlockGroupHeader(payload: Uint8Array): BlockHeader | null {
+  let header: BlockHeader | null = null;
+  let hasReference = false;
+
+  forEachChild(payload, (id, data) => {
+    if (id === BLOCK_ID) header = readBlockHeader(data);
+    if (id === REFERENCE_BLOCK_ID) hasReference = true;
+  });
+
+  // Assigned in the callback, which narrowing does not see
+  const block = header as BlockHeader | null;
+  return block && { ...block, keyframe: !hasReference };
+}
+
+function readVideoTracks(tracks: Uint8Array): Set<number> {
+  const videoTracks = new Set<number>();
+
+  forEachChild(tracks, (id, entry) => {
+    if (id !== TRACK_ENTRY_ID) return;
+
+    let number: number | null = null;
+    let type: number | null = null;
+    forEachChild(entry, (childId, data) => {
+      if (childId === TRACK_NUMBER_ID) number = readUint(data, 0, data.length);
+      if (childId === TRACK_TYPE_ID) type = readUint(data, 0, data.length);
+    });
+
+    if (number !== null && type === VIDEO_TRACK_TYPE) {
+      videoTracks.add(number);
+    }
+  });
+
+  return videoTracks;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0)
+  );
+
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
+
+function encodeId(id: number): Uint8Array {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) {
+    bytes.unshift(value % 256);
+  }
+  return Uint8Array.from(bytes);
+}
+
+/**
+ * Sizes are always written with 8 bytes, so an element's length never
+ * depends on the size of its payload
+ */
+function encodeSize(size: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  bytes[0] = 0x01;
+
+  let value = size;
+  for (let i = 7; i > 0; i--) {
+    bytes[i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  return bytes;
+}
+
+function encodeUint(value: number, length?: number): Uint8Array {
+  let byteLength = length ?? 1;
+  while (length === undefined && byteLength < 8 && value >= 256 ** byteLength) {
+    byteLength++;
+  }
+
+  const bytes = new Uint8Array(byteLength);
+  let remaining = value;
+  for (let i = byteLength - 1; i >= 0; i--) {
+    bytes[i] = remaining % 256;
+    remaining = Math.floor(remaining / 256);
+  }
+  return bytes;
+}
+
+function encodeElement(id: number, parts: Uint8Array[]): Uint8Array {
+  const payload = concatBytes(parts);
+  return concatBytes([encodeId(id), encodeSize(payload.length), payload]);
+}
+
+function encodeUintElement(
+  id: number,
+  value: number,
+  length?: number
+): Uint8Array {
+  return encodeElement(id, [encodeUint(value, length)]);
+}
+
+/**
+ * Whether the data starts with its own WebM header
+ */
+export function hasInitSegment(data: ArrayBuffer): boolean {
+  const header = readElementHeader(new Uint8Array(data), 0);
+  return header?.id === EBML_HEADER_ID;
+}
+
+/**
+ * Returns the header of a WebM recording (everything before the first
+ * Cluster), or null if the data does not start with one
+ */
+export function extractInitSegment(data: ArrayBuffer): ArrayBuffer | null {
+  const bytes = new Uint8Array(data);
+
+  const ebml = readElementHeader(bytes, 0);
+  if (ebml?.id !== EBML_HEADER_ID || ebml.size === null) return null;
+
+  let offset = ebml.headerLength + ebml.size;
+  const segment = readElementHeader(bytes, offset);
+  if (segment?.id !== SEGMENT_ID) return null;
+
+  // Walk the Segment's children until the first Cluster
+  offset += segment.headerLength;
+  while (offset < bytes.length) {
+    const element = readElementHeader(bytes, offset);
+    if (!element) return null;
+
+    if (element.id === CLUSTER_ID) {
+      return data.slice(0, offset);
+    }
+    if (element.size === null) return null;
+
+    offset += element.headerLength + element.size;
+  }
+
+  return null;
+}
+
+/**
+ * Returns the data from its first Cluster onwards. A chunk that continues a
+ * recording usually opens mid-Cluster, which a SourceBuffer can only parse
+ * right after the previous chunk; from a Cluster start it can be appended
+ * after a seek or a fresh header. Returns null if no Cluster starts in it.
+ */
+export function trimToFirstCluster(data: ArrayBuffer): ArrayBuffer | null {
+  const bytes = new Uint8Array(data);
+
+  for (let offset = 0; offset + 4 < bytes.length; offset++) {
+    // Cheap byte check first; the ID can also occur inside frame data
+    if (bytes[offset] !== 0x1f || bytes[offset + 1] !== 0x43) continue;
+
+    const cluster = readElementHeader(bytes, offset);
+    if (cluster?.id !== CLUSTER_ID) continue;
+
+    // Every Cluster opens with its Timecode
+    const timecode = readElementHeader(bytes, offset + cluster.headerLength);
+    if (timecode?.id === TIMECODE_ID) {
+      return offset === 0 ? data : data.slice(offset);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Joins WebM recordings into one file with a known duration and seek cues.
+ * Push the bytes of each recording in order, chunk by chunk; a chunk that
+ * starts with a header begins the next recording, which is shifted to play
+ * after the previous one. The first recording's header is kept, so every
+ * recording must share its tracks.
+ */
+export class WebmRemuxer {
+  private ebmlHeader: Uint8Array | null = null;
+  private tracks: Uint8Array | null = null;
+  private videoTracks: Set<number> = new Set();
+  private timecodeScale: number = DEFAULT_TIMECODE_SCALE;
+  private clusters: RemuxedCluster[] = [];
+  private cluster: RemuxedCluster | null = null;
+  private pending: Uint8Array = new Uint8Array(0);
+  private inHeader: boolean = true; // Before the current recording's first Cluster
+  private recordingStart: number = 0; // On the joined timeline
+  private recordingEnd: number = 0; // Latest block, relative to recordingStart
+  private recordingDurationMs: number = 0; // Sum of the known chunk durations
+
+  /**
+   * Adds the next chunk of bytes. durationMs, when known, makes sure the
+   * next recording starts after all of this one, not just its last frame.
+   */
+  public push(data: ArrayBuffer, durationMs: number | null = null): void {
+    if (hasInitSegment(data)) {
+      if (this.ebmlHeader) {
+        this.startRecording();
+      }
+    } else if (!this.ebmlHeader && this.pending.length === 0) {
+      throw new Error("Recording does not start with a WebM header");
+    }
+
+    this.recordingDurationMs += durationMs ?? 0;
+    this.pending = concatBytes([this.pending, new Uint8Array(data)]);
+    this.parse();
+  }
+
+  /**
+   * Forgets a partly read element after data went missing. The next push
+   * has to start at a Cluster (see trimToFirstCluster) or a header.
+   */
+  public skipGap(): void {
+    this.pending = new Uint8Array(0);
+  }
+
+  /**
+   * Writes the joined recording
+   */
+  public finish(mimeType: string = "video/webm"): Blob {
+    this.closeCluster();
+
+    if (!this.ebmlHeader || !this.tracks) {
+      throw new Error("Recording has no WebM header");
+    }
+
+    const duration = this.recordingStart + this.getRecordingLength();
+    const info = encodeElement(INFO_ID, [
+      encodeUintElement(TIMECODE_SCALE_ID, this.timecodeScale),
+      encodeElement(MUXING_APP_ID, [new TextEncoder().encode(APP_NAME)]),
+      encodeElement(WRITING_APP_ID, [new TextEncoder().encode(APP_NAME)]),
+      encodeElement(DURATION_ID, [encodeFloat(duration)]),
+    ]);
+
+    const clusterHeaders = this.clusters.map((cluster) => {
+      const timecode = encodeUintElement(TIMECODE_ID, cluster.timecode);
+      return concatBytes([
+        encodeId(CLUSTER_ID),
+        encodeSize(timecode.length + cluster.size),
+        timecode,
+      ]);
+    });
+
+    // Positions are written with a fixed width, so the layout can be worked
+    // out before they are known
+    const seekHeadLength = this.encodeSeekHead([0, 0, 0]).length;
+    const cuesLength = this.encodeCues([]).length;
+    const infoPosition = seekHeadLength;
+    const tracksPosition = infoPosition + info.length;
+    const cuesPosition = tracksPosition + this.tracks.length;
+
+    const clusterPositions: number[] = [];
+    let position = cuesPosition + cuesLength;
+    this.clusters.forEach((cluster, i) => {
+      clusterPositions.push(position);
+      position += clusterHeaders[i].length + cluster.size;
+    });
+
+    const seekHead = this.encodeSeekHead([
+      infoPosition,
+      tracksPosition,
+      cuesPosition,
+    ]);
+    const cues = this.encodeCues(clusterPositions);
+
+    const parts = [
+      this.ebmlHeader,
+      encodeId(SEGMENT_ID),
+      encodeSize(position),
+      seekHead,
+      info,
+      this.tracks,
+      cues,
+      ...this.clusters.flatMap((cluster, i) => [
+        clusterHeaders[i],
+        ...cluster.blocks,
+      ]),
+    ];
+
+    // Every part is backed by a plain ArrayBuffer
+    return new Blob(parts as BlobPart[], { type: mimeType });
+  }
+
+  private startRecording(): void {
+    this.closeCluster();
+    this.recordingStart += this.getRecordingLength();
+    this.recordingEnd = 0;
+    this.recordingDurationMs = 0;
+    this.pending = new Uint8Array(0); // A cut-off frame is dropped
+    this.inHeader = true;
+  }
+
+  private getRecordingLength(): number {
+    const duration = Math.round(
+      (this.recordingDurationMs * 1000000) / this.timecodeScale
+    );
+    return Math.max(this.recordingEnd, duration);
+  }
+
+  /**
+   * Consumes every complete element in the pending bytes. Clusters are
+   * entered rather than skipped, since live recordings leave their size
+   * unknown; each one ends where the next begins.
+   */
+  private parse(): void {
+    const bytes = this.pending;
+    let offset = 0;
+
+    while (offset < bytes.length) {
+      const element = readElementHeader(bytes, offset);
+      if (!element) break;
+
+      const start = offset + element.headerLength;
+
+      if (element.id === SEGMENT_ID) {
+        offset = start;
+        continue;
+      }
+
+      if (element.id === CLUSTER_ID) {
+        this.closeCluster();
+        this.inHeader = false;
+        this.cluster = { timecode: 0, blocks: [], size: 0, cue: null };
+        offset = start;
+        continue;
+      }
+
+      if (element.size === null) {
+        throw new Error(`WebM element ${element.id.toString(16)} has no size`);
+      }
+
+      const end = start + element.size;
+      if (end > bytes.length) break;
+
+      if (this.inHeader) {
+        this.readHeaderElement(
+          element.id,
+          bytes.subarray(offset, end),
+          start - offset
+        );
+      } else if (this.cluster && element.id === TIMECODE_ID) {
+        this.cluster.timecode = readUint(bytes, start, element.size);
+      } else if (
+        this.cluster &&
+        (element.id === SIMPLE_BLOCK_ID || element.id === BLOCK_GROUP_ID)
+      ) {
+        this.addBlock(
+          element.id,
+          bytes.subarray(offset, end),
+          bytes.subarray(start, end)
+        );
+      }
+      // Anything else (Cues, Tags, Void) is rebuilt or left out
+
+      offset = end;
+    }
+
+    this.pending = bytes.subarray(offset);
+  }
+
+  private readHeaderElement(
+    id: number,
+    element: Uint8Array,
+    headerLength: number
+  ): void {
+    const payload = element.subarray(headerLength);
+
+    if (id === EBML_HEADER_ID) {
+      this.ebmlHeader ??= element;
+    } else if (id === INFO_ID) {
+      forEachChild(payload, (childId, data) => {
+        if (childId === TIMECODE_SCALE_ID) {
+          this.timecodeScale = readUint(data, 0, data.length);
+        }
+      });
+    } else if (id === TRACKS_ID && !this.tracks) {
+      this.tracks = element;
+      this.videoTracks = readVideoTracks(payload);
+    }
+  }
+
+  private addBlock(id: number, element: Uint8Array, payload: Uint8Array): void {
+    const cluster = this.cluster;
+    if (!cluster) return;
+
+    const header =
+      id === SIMPLE_BLOCK_ID
+        ? readBlockHeader(payload)
+        : readBlockGroupHeader(payload);
+
+    cluster.blocks.push(element);
+    cluster.size += element.length;
+    if (!header) return;
+
+    const time = cluster.timecode + header.timecode;
+    this.recordingEnd = Math.max(this.recordingEnd, time);
+
+    const isVideo = this.videoTracks.has(header.track);
+    const preferred =
+      !cluster.cue || (isVideo && !this.videoTracks.has(cluster.cue.track));
+    if (header.keyframe && preferred) {
+      cluster.cue = { time, track: header.track };
+    }
+  }
+
+  /**
+   * Moves the Cluster being read onto the joined timeline
+   */
+  private closeCluster(): void {
+    const cluster = this.cluster;
+    this.cluster = null;
+
+    if (!cluster || cluster.blocks.length === 0) return;
+
+    cluster.timecode += this.recordingStart;
+    if (cluster.cue) {
+      cluster.cue.time += this.recordingStart;
+    }
+    this.clusters.push(cluster);
+  }
+
+  private encodeSeekHead(positions: number[]): Uint8Array {
+    return encodeElement(
+      SEEK_HEAD_ID,
+      [INFO_ID, TRACKS_ID, CUES_ID].map((id, i) =>
+        encodeElement(SEEK_ID, [
+          encodeElement(SEEK_ID_ID, [encodeId(id)]),
+          encodeUintElement(SEEK_POSITION_ID, positions[i] ?? 0, 8),
+        ])
+      )
+    );
+  }
+
+  private encodeCues(clusterPositions: number[]): Uint8Array {
+    const cuePoints = this.clusters.flatMap((cluster, i) =>
+      cluster.cue
+        ? [
+            encodeElement(CUE_POINT_ID, [
+              encodeUintElement(CUE_TIME_ID, cluster.cue.time),
+              encodeElement(CUE_TRACK_POSITIONS_ID, [
+                encodeUintElement(CUE_TRACK_ID, cluster.cue.track),
+                encodeUintElement(
+                  CUE_CLUSTER_POSITION_ID,
+                  clusterPositions[i] ?? 0,
+                  8
+                ),
+              ]),
+            ]),
+          ]
+        : []
+    );
+
+    return encodeElement(CUES_ID, cuePoints);
+  }
+}
+
+function encodeFloat(value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return bytes;
+}
+
+export default {
+  hasInitSegment,
+  extractInitSegment,
+  trimToFirstCluster,
+  WebmRemuxer,
+};